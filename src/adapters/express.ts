@@ -0,0 +1,37 @@
+/**
+ * Express 追踪适配模块
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { runWithTraceContext } from "../tracing/context";
+import { createSampler } from "../tracing/sampling";
+import { startNodeRequestTracing, type NodeTracingOptions } from "./node";
+
+export type ExpressTracingMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: (error?: unknown) => void
+) => void;
+
+/**
+ * 创建 Express 追踪中间件
+ *
+ * 需作为第一个中间件注册，之后的中间件与路由都在追踪上下文中运行
+ *
+ * @example
+ * import express from 'express';
+ * import { createExpressTracingMiddleware } from '@optima/core/adapters';
+ *
+ * const app = express();
+ * app.use(createExpressTracingMiddleware({ serviceName: 'commerce-backend' }));
+ */
+export function createExpressTracingMiddleware(
+  options: NodeTracingOptions
+): ExpressTracingMiddleware {
+  const sampler = createSampler(options.sampler ?? "always");
+
+  return (req, res, next) => {
+    const context = startNodeRequestTracing(req, res, options, sampler);
+    runWithTraceContext(context, () => next());
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Fastify 追踪适配模块
+ *
+ * 不依赖 fastify 包，仅使用其插件 / hook 的结构
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { runWithTraceContext } from "../tracing/context";
+import { createSampler } from "../tracing/sampling";
+import { startNodeRequestTracing, type NodeTracingOptions } from "./node";
+
+interface FastifyRequestLike {
+  raw: IncomingMessage;
+  /** fastify >= 4.21 */
+  routeOptions?: { url?: string };
+  /** fastify < 4.21 */
+  routerPath?: string;
+}
+
+interface FastifyReplyLike {
+  raw: ServerResponse;
+}
+
+interface FastifyInstanceLike {
+  addHook(
+    name: "onRequest",
+    hook: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+      done: () => void
+    ) => void
+  ): unknown;
+}
+
+export interface FastifyTracingPlugin {
+  (fastify: FastifyInstanceLike, options: unknown, done: () => void): void;
+  [key: symbol]: unknown;
+}
+
+/**
+ * 创建 Fastify 追踪插件
+ *
+ * 在 onRequest hook 中建立追踪上下文，之后的 hook 与路由 handler 都在该上下文中运行。
+ * 插件跳过封装（等同 fastify-plugin），对所有路由生效。
+ *
+ * @example
+ * import Fastify from 'fastify';
+ * import { createFastifyTracingPlugin } from '@optima/core/adapters';
+ *
+ * const app = Fastify();
+ * await app.register(createFastifyTracingPlugin({ serviceName: 'session-gateway' }));
+ */
+export function createFastifyTracingPlugin(
+  options: NodeTracingOptions
+): FastifyTracingPlugin {
+  const sampler = createSampler(options.sampler ?? "always");
+
+  const plugin = (
+    fastify: FastifyInstanceLike,
+    _options: unknown,
+    done: () => void
+  ) => {
+    fastify.addHook("onRequest", (request, reply, hookDone) => {
+      const context = startNodeRequestTracing(
+        request.raw,
+        reply.raw,
+        options,
+        sampler,
+        request.routeOptions?.url ?? request.routerPath
+      );
+      runWithTraceContext(context, hookDone);
+    });
+    done();
+  };
+
+  // 等同 fastify-plugin：不创建新的封装上下文
+  return Object.assign(plugin, {
+    [Symbol.for("skip-override")]: true,
+    [Symbol.for("fastify.display-name")]: "@optima-chat/observability",
+  });
+}
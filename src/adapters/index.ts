@@ -0,0 +1,6 @@
+import "../tracing/node";
+
+export * from "./node";
+export * from "./express";
+export * from "./fastify";
+export * from "./next";
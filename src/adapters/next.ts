@@ -0,0 +1,166 @@
+/**
+ * Next.js Pages Router API 路由与 Server Actions 追踪模块
+ *
+ * App Router 的 route handler 使用 withTracing；
+ * 本模块覆盖 `pages/api`（NextApiRequest / NextApiResponse）与 Server Actions。
+ * 不在类型上依赖 next 包，`next/headers` 仅在 Server Action 中按需加载。
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { getLogger } from "../logging/logger";
+import { runWithTraceContext } from "../tracing/context";
+import { createInboundTraceContext } from "../tracing/middleware";
+import { inferRouteFromParams, type RouteParams } from "../tracing/route";
+import { createSampler } from "../tracing/sampling";
+import { contextWithSpan, startSpan } from "../tracing/span";
+import {
+  runTracedListener,
+  startNodeRequestTracing,
+  type NodeTracingOptions,
+} from "./node";
+
+/**
+ * Server Action 追踪选项
+ *
+ * Server Action 无法设置响应 header，也不对应 URL 路由，
+ * 因此不支持 `serverTiming` / `accessLog` / 路由模板相关选项
+ */
+export type ActionTracingOptions = Omit<
+  NodeTracingOptions,
+  "serverTiming" | "accessLog" | "route" | "normalizePath"
+>;
+
+/**
+ * 包装 Pages Router API 路由添加追踪支持
+ *
+ * 与 withTracing 一致：读取上游追踪 header、写入响应追踪 header，
+ * handler 抛出异常时记录日志并返回带 trace_id 的 JSON 500。
+ * 返回的 Promise 在 handler 完成后 resolve，Next.js 据此判断路由是否结束。
+ *
+ * @example
+ * // pages/api/users.ts
+ * import { withPagesApiTracing } from '@optima/core/adapters';
+ *
+ * export default withPagesApiTracing(async (req, res) => {
+ *   res.status(200).json({ users: [] });
+ * }, { serviceName: 'commerce-admin' });
+ */
+export function withPagesApiTracing<
+  Req extends IncomingMessage = IncomingMessage,
+  Res extends ServerResponse = ServerResponse,
+>(
+  handler: (req: Req, res: Res) => unknown,
+  options: NodeTracingOptions
+): (req: Req, res: Res) => Promise<void> {
+  const sampler = createSampler(options.sampler ?? "always");
+
+  return (req: Req, res: Res) => {
+    // req.query 包含动态段参数，可推断路由模板
+    const query = (req as { query?: RouteParams }).query;
+    const route =
+      query && !options.route
+        ? inferRouteFromParams((req.url || "/").split("?")[0], query)
+        : undefined;
+    const context = startNodeRequestTracing(req, res, options, sampler, route);
+    return runTracedListener(context, req, res, handler, options.logger ?? getLogger());
+  };
+}
+
+/**
+ * 读取当前请求的 header
+ *
+ * 通过 `next/headers` 获取（兼容同步与异步的 `headers()`），
+ * 不在请求作用域内或未安装 next 时返回空 Headers
+ */
+async function readRequestHeaders(): Promise<Headers> {
+  try {
+    const { headers } = await import("next/headers");
+    const incoming = await headers();
+    return new Headers(incoming);
+  } catch {
+    return new Headers();
+  }
+}
+
+/**
+ * 判断是否为 Next.js 控制流异常（redirect() / notFound() 等）
+ *
+ * 这类异常需原样抛出，且不应记为错误
+ */
+function isNextControlFlowError(error: unknown): boolean {
+  const digest = (error as { digest?: unknown } | null)?.digest;
+  return (
+    typeof digest === "string" &&
+    (digest.startsWith("NEXT_REDIRECT") ||
+      digest === "NEXT_NOT_FOUND" ||
+      digest.startsWith("NEXT_HTTP_ERROR_FALLBACK"))
+  );
+}
+
+/**
+ * 包装 Server Action 添加追踪支持
+ *
+ * 从上游请求 header 建立追踪上下文，action 在该上下文与名为 `action <name>` 的 span 中运行。
+ * 异常时记录日志并标记 span 后原样抛出；redirect() / notFound() 不视为错误。
+ *
+ * @example
+ * // app/actions.ts
+ * 'use server';
+ * import { withActionTracing } from '@optima/core/adapters';
+ *
+ * export const createOrder = withActionTracing('createOrder', async (input: OrderInput) => {
+ *   return db.orders.create(input);
+ * }, { serviceName: 'commerce-admin' });
+ */
+export function withActionTracing<Args extends unknown[], R>(
+  name: string,
+  action: (...args: Args) => Promise<R>,
+  options: ActionTracingOptions
+): (...args: Args) => Promise<R> {
+  const { serviceName } = options;
+  const sampler = createSampler(options.sampler ?? "always");
+
+  return async (...args: Args) => {
+    const startTime = Date.now();
+    const logger = options.logger ?? getLogger();
+    const headers = await readRequestHeaders();
+    const baseContext = createInboundTraceContext(
+      { headers, method: "POST", path: name },
+      options,
+      sampler
+    );
+
+    const span = startSpan(`action ${name}`, {
+      kind: "server",
+      startTime,
+      parent: baseContext,
+      attributes: {
+        "next.action": name,
+        "service.name": serviceName,
+      },
+    });
+    const context = contextWithSpan(span, baseContext);
+
+    try {
+      return await runWithTraceContext(context, () => action(...args));
+    } catch (error) {
+      if (!isNextControlFlowError(error)) {
+        span.recordException(error);
+        span.setStatus(
+          "error",
+          error instanceof Error ? error.message : String(error)
+        );
+        runWithTraceContext(context, () =>
+          logger.exception(
+            "Unhandled error in server action",
+            error instanceof Error ? error : new Error(String(error)),
+            { action: name }
+          )
+        );
+      }
+      throw error;
+    } finally {
+      span.end();
+    }
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * node:http 追踪适配模块
+ *
+ * 与 withTracing 共用 header 常量、ID 生成、runWithTraceContext 与响应 header 逻辑，
+ * 供 node:http / Express / Fastify 适配器使用
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { getLogger, type Logger } from "../logging/logger";
+import {
+  logAccess,
+  parseContentLength,
+  resolveAccessLogOptions,
+} from "../tracing/access-log";
+import { runWithTraceContext, type TraceContext } from "../tracing/context";
+import {
+  buildTracingHeaders,
+  createInboundTraceContext,
+  parseUpstreamTraceContext,
+  type InboundRequestInfo,
+  type TracingOptions,
+} from "../tracing/middleware";
+import { resolveRoute } from "../tracing/route";
+import { createSampler, type Sampler } from "../tracing/sampling";
+import {
+  formatServerTiming,
+  isServerTimingEnabled,
+  SERVER_TIMING_HEADER,
+} from "../tracing/server-timing";
+import { contextWithSpan, startSpan } from "../tracing/span";
+
+/**
+ * Node.js 适配器选项
+ *
+ * `onError` / `errorBody` 基于 Fetch API Request，仅用于 withTracing
+ */
+export type NodeTracingOptions = Omit<TracingOptions, "onError" | "errorBody">;
+
+/**
+ * 将 node:http 的 header 转为 Fetch API Headers
+ */
+export function toFetchHeaders(raw: IncomingMessage["headers"]): Headers {
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(raw)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        headers.append(key, item);
+      }
+    } else {
+      headers.set(key, value);
+    }
+  }
+  return headers;
+}
+
+/**
+ * 为 node:http 请求建立追踪
+ *
+ * 创建上下文与 server span，在响应 header 发送前写入追踪 header，
+ * 响应结束时结束 span。调用方需在返回的上下文中运行后续处理。
+ * 框架已知路由模板时通过 `routeTemplate` 传入，否则按 options 解析。
+ */
+export function startNodeRequestTracing(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: NodeTracingOptions,
+  sampler: Sampler = createSampler(options.sampler ?? "always"),
+  routeTemplate?: string
+): TraceContext {
+  const { serviceName } = options;
+  const startTime = Date.now();
+  const method = req.method || "GET";
+  const path = (req.url || "/").split("?")[0];
+
+  const inbound: InboundRequestInfo = {
+    headers: toFetchHeaders(req.headers),
+    method,
+    path,
+    remoteAddress: req.socket?.remoteAddress,
+  };
+  // 上游追踪信息只解析一次，访问日志复用
+  const upstream = parseUpstreamTraceContext(inbound, options);
+  const baseContext = createInboundTraceContext(
+    inbound,
+    options,
+    sampler,
+    upstream
+  );
+
+  const route = routeTemplate || resolveRoute(path, options);
+
+  const span = startSpan(`${method} ${route}`, {
+    kind: "server",
+    startTime,
+    parent: baseContext,
+    attributes: {
+      "http.method": method,
+      "http.target": path,
+      "http.route": route,
+      "service.name": serviceName,
+    },
+  });
+  const context = contextWithSpan(span, { ...baseContext, route });
+  if (isServerTimingEnabled(options.serverTiming)) {
+    context.timings = [];
+  }
+  const maxEntries =
+    typeof options.serverTiming === "object"
+      ? options.serverTiming.maxEntries
+      : undefined;
+  const accessLog = resolveAccessLogOptions(options.accessLog);
+
+  // 在 header 发送前写入追踪 header（write / end 隐式发送 header 时同样会调用 writeHead）
+  const originalWriteHead = res.writeHead;
+  let headersApplied = false;
+  res.writeHead = function (this: ServerResponse, ...args: unknown[]) {
+    if (!headersApplied) {
+      headersApplied = true;
+      const durationMs = Date.now() - startTime;
+      const headers = buildTracingHeaders(context, {
+        serviceName,
+        durationMs,
+        serverTiming: context.timings
+          ? formatServerTiming(context.timings, { maxEntries, totalMs: durationMs })
+          : undefined,
+      });
+
+      for (const [key, value] of Object.entries(headers)) {
+        const existing = res.getHeader(key);
+        if (key === SERVER_TIMING_HEADER && existing !== undefined) {
+          res.setHeader(key, `${existing}, ${value}`);
+        } else {
+          res.setHeader(key, value);
+        }
+      }
+    }
+    return (originalWriteHead as (...a: unknown[]) => ServerResponse).apply(this, args);
+  } as ServerResponse["writeHead"];
+
+  const finish = (aborted: boolean) => {
+    if (span.isEnded()) return;
+    span.setAttribute("http.status_code", res.statusCode);
+    if (aborted) {
+      span.setAttribute("http.aborted", true);
+    }
+    if (res.statusCode >= 500) {
+      span.setStatus("error");
+    }
+    span.end();
+
+    if (accessLog) {
+      const contentLength = res.getHeader("Content-Length");
+      runWithTraceContext(context, () =>
+        logAccess(
+          options.logger ?? getLogger(),
+          {
+            method,
+            path,
+            route,
+            status: res.statusCode,
+            durationMs: Date.now() - startTime,
+            responseSize: parseContentLength(
+              contentLength === undefined ? null : String(contentLength)
+            ),
+            userAgent: inbound.headers.get("User-Agent") || undefined,
+            upstreamTraceId: upstream.traceId ?? upstream.upstreamTraceId,
+          },
+          accessLog
+        )
+      );
+    }
+  };
+  res.once("finish", () => finish(false));
+  res.once("close", () => finish(!res.writableFinished));
+
+  return context;
+}
+
+/**
+ * 包装 node:http request listener 添加追踪支持
+ *
+ * listener 抛出异常时记录日志，并在 header 未发送时返回带 trace_id 的 JSON 500
+ *
+ * @example
+ * import { createServer } from 'node:http';
+ * import { withNodeTracing } from '@optima/core/adapters';
+ *
+ * createServer(
+ *   withNodeTracing(async (req, res) => {
+ *     res.end('ok');
+ *   }, { serviceName: 'mcp-host' })
+ * ).listen(8000);
+ */
+export function withNodeTracing<
+  Req extends IncomingMessage = IncomingMessage,
+  Res extends ServerResponse = ServerResponse,
+>(
+  listener: (req: Req, res: Res) => void | Promise<void>,
+  options: NodeTracingOptions
+): (req: Req, res: Res) => void {
+  const sampler = createSampler(options.sampler ?? "always");
+
+  return (req: Req, res: Res) => {
+    const context = startNodeRequestTracing(req, res, options, sampler);
+    void runTracedListener(context, req, res, listener, options.logger ?? getLogger());
+  };
+}
+
+/**
+ * 在追踪上下文中运行 listener
+ *
+ * 异常时记录日志，并在 header 未发送时返回带 trace_id 的 JSON 500。
+ * 返回的 Promise 在 listener 完成（或异常处理完成）后 resolve，不会 reject。
+ */
+export function runTracedListener<
+  Req extends IncomingMessage,
+  Res extends ServerResponse,
+>(
+  context: TraceContext,
+  req: Req,
+  res: Res,
+  listener: (req: Req, res: Res) => unknown,
+  logger: Logger = getLogger()
+): Promise<void> {
+  return runWithTraceContext(context, () => {
+    const handleError = (error: unknown) => {
+      context.span?.recordException(error);
+      logger.exception(
+        "Unhandled error in request handler",
+        error instanceof Error ? error : new Error(String(error)),
+        { method: req.method, path: (req.url || "/").split("?")[0], status: 500 }
+      );
+
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+
+      res.statusCode = 500;
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          error: "Internal Server Error",
+          traceId: context.traceId,
+          requestId: context.requestId,
+        })
+      );
+    };
+
+    try {
+      const result = listener(req, res);
+      if (result instanceof Promise) {
+        return result.then(() => undefined, handleError);
+      }
+    } catch (error) {
+      handleError(error);
+    }
+    return Promise.resolve();
+  });
+}
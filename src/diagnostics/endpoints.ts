@@ -3,6 +3,10 @@
  */
 
 import { getCachedBuildInfo } from "../config/build-info";
+import {
+  getCircuitBreakerSnapshots,
+  type CircuitBreakerSnapshot,
+} from "../http/circuit-breaker";
 
 // 启动时间
 const startTime = Date.now();
@@ -22,6 +26,8 @@ export interface DebugInfoResponse {
   };
   startupTime: string;
   uptimeSeconds: number;
+  /** createTracedClient 熔断器状态（有熔断器时返回） */
+  circuitBreakers?: CircuitBreakerSnapshot[];
 }
 
 export interface DebugConfigResponse {
@@ -38,6 +44,7 @@ export interface DebugConfigResponse {
  */
 export function getDebugInfo(): DebugInfoResponse {
   const buildInfo = getCachedBuildInfo();
+  const circuitBreakers = getCircuitBreakerSnapshots();
 
   return {
     build: {
@@ -54,6 +61,7 @@ export function getDebugInfo(): DebugInfoResponse {
     },
     startupTime: new Date(startTime).toISOString(),
     uptimeSeconds: Math.floor((Date.now() - startTime) / 1000),
+    circuitBreakers: circuitBreakers.length > 0 ? circuitBreakers : undefined,
   };
 }
 
@@ -0,0 +1,25 @@
+/**
+ * Edge 运行时入口
+ *
+ * 不依赖 `node:async_hooks`，可在 Next.js `middleware.ts` 及
+ * `runtime = "edge"` 路由中使用
+ */
+
+export * from "../tracing/ids";
+export * from "../tracing/context";
+export * from "../tracing/w3c";
+export * from "../tracing/span";
+export * from "../tracing/sampling";
+export * from "../tracing/baggage";
+export * from "../tracing/server-timing";
+export * from "../tracing/validation";
+export * from "../tracing/route";
+export * from "../tracing/stream";
+export * from "../tracing/middleware";
+export {
+  isAsyncContextSupported,
+  installContextStorage,
+  type ContextStorage,
+} from "../tracing/storage";
+export * from "../logging/logger";
+export * from "./middleware";
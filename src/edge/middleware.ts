@@ -0,0 +1,212 @@
+/**
+ * Next.js Edge 中间件追踪模块
+ *
+ * 用于 `middleware.ts` 及 `runtime = "edge"` 路由：在请求入口分配 / 沿用 trace_id，
+ * 通过 NextResponse 把追踪 header 转发给后续 route handler 并写入响应
+ */
+
+import {
+  NextResponse,
+  type NextFetchEvent,
+  type NextRequest,
+} from "next/server";
+import { runWithTraceContext, type TraceContext } from "../tracing/context";
+import {
+  createInboundTraceContext,
+  getTraceHeaders,
+  REQUEST_ID_HEADER,
+  TRACE_ID_HEADER,
+  type TracingOptions,
+} from "../tracing/middleware";
+import { resolveRoute } from "../tracing/route";
+import { createSampler } from "../tracing/sampling";
+import { contextWithSpan, startSpan } from "../tracing/span";
+
+export type EdgeTracingOptions = TracingOptions;
+
+export interface EdgeTracingHelpers {
+  /** 当前请求的追踪上下文（AsyncLocalStorage 不可用时可直接使用） */
+  context: TraceContext;
+  /** 需转发给 route handler 的追踪 header */
+  headers: Record<string, string>;
+  /**
+   * 继续请求链，并把追踪 header 写入转发的请求 header
+   *
+   * 等价于 `NextResponse.next({ request: { headers } })`
+   */
+  next(init?: { headers?: Headers | Record<string, string> }): NextResponse;
+}
+
+export type EdgeMiddleware = (
+  request: NextRequest,
+  event: NextFetchEvent,
+  tracing: EdgeTracingHelpers
+) =>
+  | Response
+  | null
+  | undefined
+  | void
+  | Promise<Response | null | undefined | void>;
+
+// Next.js 用于标记 NextResponse.next() 的内部 header
+const MIDDLEWARE_NEXT_HEADER = "x-middleware-next";
+const MIDDLEWARE_OVERRIDE_HEADER = "x-middleware-override-headers";
+
+/**
+ * 为请求附加追踪 header 后继续请求链
+ */
+function nextWithTraceHeaders(
+  request: NextRequest,
+  traceHeaders: Record<string, string>,
+  init?: { headers?: Headers | Record<string, string> }
+): NextResponse {
+  const requestHeaders = new Headers(request.headers);
+  for (const [key, value] of Object.entries(traceHeaders)) {
+    requestHeaders.set(key, value);
+  }
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  if (init?.headers) {
+    new Headers(init.headers).forEach((value, key) => {
+      response.headers.set(key, value);
+    });
+  }
+  return response;
+}
+
+/**
+ * 设置响应 header（响应 header 不可变时复制一份响应）
+ */
+function setResponseHeaders(
+  response: Response,
+  headers: Record<string, string>
+): Response {
+  try {
+    for (const [key, value] of Object.entries(headers)) {
+      response.headers.set(key, value);
+    }
+    return response;
+  } catch {
+    const copy = new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: new Headers(response.headers),
+    });
+    for (const [key, value] of Object.entries(headers)) {
+      copy.headers.set(key, value);
+    }
+    return copy;
+  }
+}
+
+/**
+ * 包装 Next.js middleware 添加追踪支持
+ *
+ * - 未返回响应时继续请求链，并把追踪 header 转发给 route handler
+ * - 返回普通 `NextResponse.next()` 时同样补上转发 header
+ * - 所有响应都会带上 `X-Trace-ID` / `X-Request-ID`
+ *
+ * @example
+ * // middleware.ts
+ * import { withEdgeTracing } from '@optima/core/edge';
+ *
+ * export default withEdgeTracing(
+ *   async (request, event, tracing) => {
+ *     if (!request.cookies.has('session')) {
+ *       return NextResponse.redirect(new URL('/login', request.url));
+ *     }
+ *     return tracing.next();
+ *   },
+ *   { serviceName: 'agentic-chat', serviceShort: 'chat' }
+ * );
+ */
+export function withEdgeTracing(
+  middleware: EdgeMiddleware,
+  options: EdgeTracingOptions
+): (request: NextRequest, event: NextFetchEvent) => Promise<Response> {
+  const { serviceName } = options;
+  const sampler = createSampler(options.sampler ?? "always");
+
+  return async (request: NextRequest, event: NextFetchEvent) => {
+    const path = request.nextUrl?.pathname ?? new URL(request.url).pathname;
+    const baseContext = createInboundTraceContext(
+      { headers: request.headers, method: request.method, path },
+      options,
+      sampler
+    );
+
+    const route = resolveRoute(path, options);
+
+    const span = startSpan(`middleware ${request.method} ${route}`, {
+      kind: "server",
+      parent: baseContext,
+      attributes: {
+        "http.method": request.method,
+        "http.target": path,
+        "http.route": route,
+        "service.name": serviceName,
+      },
+    });
+    const context = contextWithSpan(span, { ...baseContext, route });
+    const traceHeaders = runWithTraceContext(context, getTraceHeaders);
+
+    const helpers: EdgeTracingHelpers = {
+      context,
+      headers: traceHeaders,
+      next: (init) => nextWithTraceHeaders(request, traceHeaders, init),
+    };
+
+    let result: Response | null | undefined | void;
+    try {
+      result = await runWithTraceContext(context, () =>
+        middleware(request, event, helpers)
+      );
+    } catch (error) {
+      span.recordException(error);
+      span.setStatus("error", error instanceof Error ? error.message : String(error));
+      span.end();
+      throw error;
+    }
+
+    let response: Response;
+    if (!result) {
+      response = helpers.next();
+    } else if (
+      result.headers.get(MIDDLEWARE_NEXT_HEADER) === "1" &&
+      !result.headers.has(MIDDLEWARE_OVERRIDE_HEADER)
+    ) {
+      // 用户自行返回的 NextResponse.next()：保留其响应 header 并补上转发 header
+      response = helpers.next({ headers: result.headers });
+    } else {
+      response = result;
+    }
+
+    span.setAttribute("http.status_code", response.status);
+    span.end();
+
+    const responseHeaders: Record<string, string> = {};
+    if (context.traceId) {
+      responseHeaders[TRACE_ID_HEADER] = context.traceId;
+    }
+    if (context.requestId) {
+      responseHeaders[REQUEST_ID_HEADER] = context.requestId;
+    }
+
+    return setResponseHeaders(response, responseHeaders);
+  };
+}
+
+/**
+ * 创建仅做追踪的 Next.js middleware
+ *
+ * @example
+ * // middleware.ts
+ * import { createEdgeTracingMiddleware } from '@optima/core/edge';
+ *
+ * export const middleware = createEdgeTracingMiddleware({ serviceName: 'agentic-chat' });
+ */
+export function createEdgeTracingMiddleware(
+  options: EdgeTracingOptions
+): (request: NextRequest, event: NextFetchEvent) => Promise<Response> {
+  return withEdgeTracing(() => undefined, options);
+}
@@ -0,0 +1,255 @@
+/**
+ * 批量 span 处理模块
+ *
+ * 收集结束的 span，按批次交给导出器；支持队列上限、指数退避重试、
+ * 丢弃计数以及关闭前 flush
+ */
+
+import { restoreTraceContext } from "../tracing/context";
+import {
+  addSpanProcessor,
+  type Span,
+  type SpanProcessor,
+} from "../tracing/span";
+import {
+  createOtlpHttpExporter,
+  type OtlpExporterOptions,
+  type SpanExporter,
+} from "./otlp";
+
+export interface BatchSpanProcessorOptions {
+  /** 队列最大长度，超出后丢弃新 span（默认 2048） */
+  maxQueueSize?: number;
+  /** 单批最大 span 数（默认 512） */
+  maxExportBatchSize?: number;
+  /** 定时导出间隔（默认 5000ms） */
+  scheduledDelayMs?: number;
+  /** 单批最大重试次数（默认 3） */
+  maxRetries?: number;
+  /** 首次重试等待（默认 500ms，之后指数增长） */
+  initialBackoffMs?: number;
+  /** 重试等待上限（默认 10000ms） */
+  maxBackoffMs?: number;
+}
+
+export interface BatchSpanProcessorStats {
+  /** 当前排队中的 span 数 */
+  queued: number;
+  /** 已成功导出的 span 数 */
+  exported: number;
+  /** 因队列已满或已关闭被丢弃的 span 数 */
+  dropped: number;
+  /** 重试耗尽或不可重试而导出失败的 span 数 */
+  failed: number;
+  /** 累计重试次数 */
+  retries: number;
+}
+
+export interface BatchSpanProcessor extends SpanProcessor {
+  /** 立即导出队列中所有 span */
+  forceFlush(): Promise<void>;
+  /** flush 后停止接收新 span */
+  shutdown(): Promise<void>;
+  getStats(): BatchSpanProcessorStats;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 创建批量 span 处理器
+ *
+ * @example
+ * const processor = createBatchSpanProcessor(exporter, { scheduledDelayMs: 2000 });
+ * addSpanProcessor(processor);
+ */
+export function createBatchSpanProcessor(
+  exporter: SpanExporter,
+  options: BatchSpanProcessorOptions = {}
+): BatchSpanProcessor {
+  const {
+    maxQueueSize = 2048,
+    maxExportBatchSize = 512,
+    scheduledDelayMs = 5000,
+    maxRetries = 3,
+    initialBackoffMs = 500,
+    maxBackoffMs = 10000,
+  } = options;
+
+  const queue: Span[] = [];
+  const stats = { exported: 0, dropped: 0, failed: 0, retries: 0 };
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let exporting: Promise<void> = Promise.resolve();
+  let isShutdown = false;
+
+  async function exportBatch(batch: Span[]): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      const result = await exporter.export(batch);
+
+      if (result === "success") {
+        stats.exported += batch.length;
+        return;
+      }
+
+      if (result === "failed" || attempt >= maxRetries) {
+        stats.failed += batch.length;
+        return;
+      }
+
+      stats.retries++;
+      const backoff = Math.min(initialBackoffMs * 2 ** attempt, maxBackoffMs);
+      // 加入抖动，避免多个实例同时重试
+      await sleep(backoff / 2 + Math.random() * (backoff / 2));
+    }
+  }
+
+  // 串行导出，保证同一时刻只有一个请求在途；
+  // 在空追踪上下文中导出，插桩不会把导出请求记录为结束该 span 的请求的子 span
+  function drain(): Promise<void> {
+    exporting = restoreTraceContext(undefined, () =>
+      exporting.then(async () => {
+        while (queue.length > 0) {
+          const batch = queue.splice(0, maxExportBatchSize);
+          // exporter 抛出异常时丢弃该批次，导出链保持 resolved，后续批次照常导出
+          try {
+            await exportBatch(batch);
+          } catch {
+            stats.failed += batch.length;
+          }
+        }
+      })
+    );
+    return exporting;
+  }
+
+  async function forceFlush(): Promise<void> {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    await drain();
+  }
+
+  function schedule(): void {
+    if (timer || isShutdown) {
+      return;
+    }
+    // 定时器不继承结束 span 时的请求上下文
+    timer = restoreTraceContext(undefined, () =>
+      setTimeout(() => {
+        timer = null;
+        void drain();
+      }, scheduledDelayMs)
+    );
+    timer.unref?.();
+  }
+
+  return {
+    onEnd(span: Span): void {
+      if (isShutdown || queue.length >= maxQueueSize) {
+        stats.dropped++;
+        return;
+      }
+
+      queue.push(span);
+
+      if (queue.length >= maxExportBatchSize) {
+        void drain();
+      } else {
+        schedule();
+      }
+    },
+
+    forceFlush,
+
+    async shutdown(): Promise<void> {
+      if (isShutdown) {
+        return;
+      }
+      await forceFlush();
+      isShutdown = true;
+      await exporter.shutdown();
+    },
+
+    getStats(): BatchSpanProcessorStats {
+      return { queued: queue.length, ...stats };
+    },
+  };
+}
+
+export interface SpanExportOptions
+  extends OtlpExporterOptions,
+    BatchSpanProcessorOptions {
+  /** 进程 beforeExit 时自动 flush（默认 true） */
+  flushOnExit?: boolean;
+}
+
+interface ActiveExport {
+  processor: BatchSpanProcessor;
+  unregister: () => void;
+}
+
+// 当前通过 configureSpanExport 注册的处理器，挂在 globalThis 上，各入口 bundle 共享
+const ACTIVE_EXPORT_KEY = Symbol.for("@optima-chat/observability/span-export");
+
+function getActiveExport(): ActiveExport | undefined {
+  return (globalThis as { [ACTIVE_EXPORT_KEY]?: ActiveExport })[ACTIVE_EXPORT_KEY];
+}
+
+function setActiveExport(active: ActiveExport | undefined): void {
+  (globalThis as { [ACTIVE_EXPORT_KEY]?: ActiveExport })[ACTIVE_EXPORT_KEY] = active;
+}
+
+/**
+ * 配置 span 导出：创建 OTLP 导出器与批量处理器并注册
+ *
+ * 重复调用会替换之前的配置（旧处理器会先 flush）。SIGTERM 等信号处理由
+ * 应用自行负责，在退出前调用 `shutdownSpanExport()` 即可。
+ *
+ * @example
+ * // instrumentation.ts
+ * import { configureSpanExport } from '@optima/core/exporter';
+ *
+ * configureSpanExport({
+ *   serviceName: 'agentic-chat',
+ *   url: 'http://otel-collector:4318/v1/traces',
+ * });
+ */
+export function configureSpanExport(options: SpanExportOptions): BatchSpanProcessor {
+  if (getActiveExport()) {
+    void shutdownSpanExport();
+  }
+
+  const processor = createBatchSpanProcessor(
+    createOtlpHttpExporter(options),
+    options
+  );
+
+  setActiveExport({ processor, unregister: addSpanProcessor(processor) });
+
+  if (options.flushOnExit !== false && typeof process !== "undefined" && typeof process.once === "function") {
+    process.once("beforeExit", () => {
+      void processor.shutdown();
+    });
+  }
+
+  return processor;
+}
+
+/**
+ * 获取当前导出统计（未配置时返回 null）
+ */
+export function getSpanExportStats(): BatchSpanProcessorStats | null {
+  return getActiveExport()?.processor.getStats() ?? null;
+}
+
+/**
+ * flush 并关闭当前 span 导出
+ */
+export async function shutdownSpanExport(): Promise<void> {
+  const active = getActiveExport();
+  active?.unregister();
+  setActiveExport(undefined);
+  await active?.processor.shutdown();
+}
@@ -0,0 +1,4 @@
+import "../tracing/node";
+
+export * from "./otlp";
+export * from "./batch";
@@ -0,0 +1,213 @@
+/**
+ * OTLP/HTTP JSON 导出模块
+ *
+ * 将 span 序列化为 OTLP JSON 并 POST 到 collector（如 `http://otel-collector:4318/v1/traces`）
+ */
+
+import { getCachedBuildInfo } from "../config/build-info";
+import { getUninstrumentedFetch } from "../http/global-fetch";
+import type {
+  Span,
+  SpanAttributes,
+  SpanKind,
+  SpanStatusCode,
+} from "../tracing/span";
+import { toW3CSpanId, toW3CTraceId } from "../tracing/w3c";
+
+export interface OtlpExporterOptions {
+  /** Collector 地址（默认 `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT` 或 `http://localhost:4318/v1/traces`） */
+  url?: string;
+  /** 资源属性 service.name */
+  serviceName: string;
+  /** 额外请求 header（如认证） */
+  headers?: Record<string, string>;
+  /** 单次请求超时（默认 10000ms） */
+  timeoutMs?: number;
+  /** 额外资源属性 */
+  resourceAttributes?: SpanAttributes;
+}
+
+/**
+ * 导出结果
+ *
+ * - `success`: 成功
+ * - `retryable`: 网络错误 / 408 / 429 / 502 / 503 / 504，可重试
+ * - `failed`: 不可重试的失败（如 400）
+ */
+export type ExportResult = "success" | "retryable" | "failed";
+
+export interface SpanExporter {
+  export(spans: Span[]): Promise<ExportResult>;
+  shutdown(): Promise<void>;
+}
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+const SPAN_KIND: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const STATUS_CODE: Record<SpanStatusCode, number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+const RETRYABLE_STATUS = new Set([408, 429, 502, 503, 504]);
+
+/**
+ * 毫秒时间戳转为 Unix 纳秒字符串
+ */
+function toUnixNano(ms: number): string {
+  const whole = Math.floor(ms);
+  const fraction = Math.round((ms - whole) * 1_000_000);
+  return (BigInt(whole) * 1_000_000n + BigInt(fraction)).toString();
+}
+
+function toAnyValue(value: string | number | boolean): OtlpAnyValue {
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toKeyValues(attributes: SpanAttributes = {}): OtlpKeyValue[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: toAnyValue(value),
+  }));
+}
+
+/**
+ * 将 span 转为 OTLP JSON 结构
+ */
+export function toOtlpSpan(span: Span) {
+  return {
+    traceId: toW3CTraceId(span.traceId),
+    spanId: span.spanId,
+    ...(span.parentSpanId
+      ? { parentSpanId: toW3CSpanId(span.parentSpanId) }
+      : {}),
+    name: span.name,
+    kind: SPAN_KIND[span.kind],
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime ?? Date.now()),
+    attributes: toKeyValues(span.attributes),
+    events: span.events.map((event) => ({
+      timeUnixNano: toUnixNano(event.timestamp),
+      name: event.name,
+      attributes: toKeyValues(event.attributes),
+    })),
+    status: {
+      code: STATUS_CODE[span.status.code],
+      ...(span.status.message ? { message: span.status.message } : {}),
+    },
+  };
+}
+
+/**
+ * 构建 OTLP ExportTraceServiceRequest 请求体
+ */
+export function buildOtlpRequest(
+  spans: Span[],
+  resourceAttributes: SpanAttributes
+) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toKeyValues(resourceAttributes) },
+        scopeSpans: [
+          {
+            scope: { name: "@optima-chat/observability" },
+            spans: spans.map(toOtlpSpan),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * 创建 OTLP/HTTP JSON 导出器
+ *
+ * @example
+ * const exporter = createOtlpHttpExporter({
+ *   url: 'http://otel-collector:4318/v1/traces',
+ *   serviceName: 'agentic-chat',
+ * });
+ */
+export function createOtlpHttpExporter(options: OtlpExporterOptions): SpanExporter {
+  const {
+    url = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ||
+      "http://localhost:4318/v1/traces",
+    serviceName,
+    headers = {},
+    timeoutMs = 10000,
+  } = options;
+
+  const buildInfo = getCachedBuildInfo();
+  const resourceAttributes: SpanAttributes = {
+    "service.name": serviceName,
+    "service.version": buildInfo.version,
+    "deployment.environment": buildInfo.environment,
+    ...(buildInfo.deploymentId
+      ? { "deployment.id": buildInfo.deploymentId }
+      : {}),
+    ...options.resourceAttributes,
+  };
+
+  return {
+    async export(spans: Span[]): Promise<ExportResult> {
+      if (spans.length === 0) {
+        return "success";
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        // 使用插桩前的 fetch；undici 插桩只处理追踪上下文中的请求，
+        // 批量处理器在空上下文中调用 export
+        const response = await getUninstrumentedFetch()(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body: JSON.stringify(buildOtlpRequest(spans, resourceAttributes)),
+          signal: controller.signal,
+        });
+
+        // 读取响应体以释放连接
+        await response.arrayBuffer().catch(() => undefined);
+
+        if (response.ok) {
+          return "success";
+        }
+
+        return RETRYABLE_STATUS.has(response.status) ? "retryable" : "failed";
+      } catch {
+        return "retryable";
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+
+    async shutdown(): Promise<void> {},
+  };
+}
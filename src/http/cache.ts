@@ -0,0 +1,518 @@
+/**
+ * HTTP 缓存模块
+ *
+ * 进程内的 GET 响应缓存，遵循 `Cache-Control`，过期后通过
+ * `If-None-Match` / `If-Modified-Since` 条件请求重新验证。
+ * 缓存在多个用户的请求间共享，按共享缓存的规则处理 `private` 与 `Authorization`
+ */
+
+import { isStreamingResponse } from "../tracing/stream";
+
+export interface CacheControlDirectives {
+  maxAge?: number;
+  sMaxAge?: number;
+  noStore: boolean;
+  noCache: boolean;
+  private: boolean;
+  public: boolean;
+  mustRevalidate: boolean;
+}
+
+/**
+ * 缓存状态
+ *
+ * hit：直接使用缓存；revalidated：条件请求返回 304 后使用缓存；
+ * coalesced：与并发的相同请求共用一次下游请求；miss：请求下游；
+ * bypass：请求不可缓存（如 `cache: "no-store"`）或为流式响应
+ */
+export type HttpCacheStatus = "hit" | "revalidated" | "coalesced" | "miss" | "bypass";
+
+/**
+ * 单次请求的缓存模式（与 fetch 的 `cache` 同名取值）
+ *
+ * no-store：不读不写缓存；no-cache：有缓存时先重新验证；reload：忽略已有缓存，结果照常写入
+ */
+export type HttpCacheMode = "default" | "no-store" | "no-cache" | "reload";
+
+export interface HttpCacheOptions {
+  /** 最多缓存的响应数（默认 500） */
+  maxEntries?: number;
+  /** 响应体总字节数上限（默认 10 MiB），超出后按 LRU 淘汰 */
+  maxSizeBytes?: number;
+}
+
+export interface HttpCacheStats {
+  hits: number;
+  misses: number;
+  revalidations: number;
+  coalesced: number;
+  /** 未经过缓存的请求（no-store、流式响应） */
+  bypassed: number;
+  evictions: number;
+  entries: number;
+  sizeBytes: number;
+}
+
+export interface CachedResponse {
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: Uint8Array;
+  /** 写入或重新验证的时间（毫秒时间戳） */
+  storedAt: number;
+  /** 过期时间（毫秒时间戳），需每次重新验证时等于 storedAt */
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+  /** Vary 中各 header 在原始请求中的值 */
+  vary: Record<string, string | null>;
+}
+
+export interface HttpCache {
+  /** 当前缓存的响应数 */
+  readonly size: number;
+  /** 响应体总字节数上限，超过该大小的响应不缓冲、不缓存 */
+  readonly maxSizeBytes: number;
+  /** 读取缓存（不检查是否过期），命中时移到 LRU 队尾 */
+  get(key: string): CachedResponse | undefined;
+  /** 写入缓存，超出上限时淘汰最久未使用的响应；单个响应超过总大小上限时不写入 */
+  set(key: string, entry: CachedResponse): void;
+  delete(key: string): boolean;
+  clear(): void;
+  getStats(): HttpCacheStats;
+  /**
+   * 合并并发的相同请求：同一 key 已有进行中的请求时等待其结果
+   *
+   * @returns shared 为 true 表示使用了其他调用发起的请求
+   */
+  coalesce<T>(key: string, fn: () => Promise<T>): Promise<{ value: T; shared: boolean }>;
+  /** 记录一次缓存结果（用于统计） */
+  record(status: HttpCacheStatus): void;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * 解析 Cache-Control header
+ */
+export function parseCacheControl(value: string | null): CacheControlDirectives {
+  const directives: CacheControlDirectives = {
+    noStore: false,
+    noCache: false,
+    private: false,
+    public: false,
+    mustRevalidate: false,
+  };
+  if (!value) return directives;
+
+  for (const part of value.split(",")) {
+    const [rawName, rawValue] = part.split("=");
+    const name = rawName.trim().toLowerCase();
+    const seconds = Number(rawValue?.trim().replace(/^"|"$/g, ""));
+    switch (name) {
+      case "max-age":
+        if (Number.isFinite(seconds)) directives.maxAge = seconds;
+        break;
+      case "s-maxage":
+        if (Number.isFinite(seconds)) directives.sMaxAge = seconds;
+        break;
+      case "no-store":
+        directives.noStore = true;
+        break;
+      case "no-cache":
+        directives.noCache = true;
+        break;
+      case "private":
+        directives.private = true;
+        break;
+      case "public":
+        directives.public = true;
+        break;
+      case "must-revalidate":
+      case "proxy-revalidate":
+        directives.mustRevalidate = true;
+        break;
+    }
+  }
+  return directives;
+}
+
+/**
+ * 创建进程内 HTTP 缓存
+ *
+ * 同一个实例可以在多个客户端间共享
+ *
+ * @example
+ * import { createHttpCache, createTracedClient } from '@optima/core/http';
+ *
+ * const cache = createHttpCache({ maxEntries: 200, maxSizeBytes: 5 * 1024 * 1024 });
+ * const config = createTracedClient('http://config-service:8000', { cache });
+ */
+export function createHttpCache(options: HttpCacheOptions = {}): HttpCache {
+  const {
+    maxEntries = DEFAULT_MAX_ENTRIES,
+    maxSizeBytes = DEFAULT_MAX_SIZE_BYTES,
+  } = options;
+  // Map 按插入顺序遍历，读取时重新插入即可实现 LRU
+  const entries = new Map<string, CachedResponse>();
+  const inflight = new Map<string, Promise<unknown>>();
+  let sizeBytes = 0;
+  const stats = {
+    hits: 0,
+    misses: 0,
+    revalidations: 0,
+    coalesced: 0,
+    bypassed: 0,
+    evictions: 0,
+  };
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return false;
+    entries.delete(key);
+    sizeBytes -= entry.body.byteLength;
+    return true;
+  };
+
+  return {
+    get size() {
+      return entries.size;
+    },
+
+    maxSizeBytes,
+
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+
+    set(key, entry) {
+      remove(key);
+      if (entry.body.byteLength > maxSizeBytes) return;
+
+      entries.set(key, entry);
+      sizeBytes += entry.body.byteLength;
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries && sizeBytes <= maxSizeBytes) break;
+        remove(oldest);
+        stats.evictions++;
+      }
+    },
+
+    delete: remove,
+
+    clear() {
+      entries.clear();
+      sizeBytes = 0;
+    },
+
+    getStats: () => ({ ...stats, entries: entries.size, sizeBytes }),
+
+    async coalesce<T>(key: string, fn: () => Promise<T>) {
+      const pending = inflight.get(key) as Promise<T> | undefined;
+      if (pending) {
+        return { value: await pending, shared: true };
+      }
+      const promise = fn();
+      inflight.set(key, promise);
+      try {
+        return { value: await promise, shared: false };
+      } finally {
+        inflight.delete(key);
+      }
+    },
+
+    record(status) {
+      if (status === "hit") stats.hits++;
+      else if (status === "revalidated") stats.revalidations++;
+      else if (status === "coalesced") stats.coalesced++;
+      else if (status === "bypass") stats.bypassed++;
+      else stats.misses++;
+    },
+  };
+}
+
+/**
+ * 计算响应的新鲜期（毫秒），没有显式过期信息时返回 undefined
+ */
+function getFreshnessLifetime(
+  directives: CacheControlDirectives,
+  headers: Headers,
+  now: number
+): number | undefined {
+  if (directives.noCache) return 0;
+  const seconds = directives.sMaxAge ?? directives.maxAge;
+  if (seconds !== undefined) return Math.max(0, seconds * 1000);
+
+  const expires = headers.get("Expires");
+  if (expires !== null) {
+    const expiresAt = Date.parse(expires);
+    const date = Date.parse(headers.get("Date") ?? "");
+    // 无法解析的 Expires（如 "0"）视为已过期
+    if (Number.isNaN(expiresAt)) return 0;
+    return Math.max(0, expiresAt - (Number.isNaN(date) ? now : date));
+  }
+  return undefined;
+}
+
+function getVaryHeaders(response: Headers): string[] {
+  return (response.get("Vary") ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function matchesVary(entry: CachedResponse, headers: Headers): boolean {
+  return Object.entries(entry.vary).every(([name, value]) => headers.get(name) === value);
+}
+
+/**
+ * 缓存的响应体已由 fetch 解码，去掉编码相关 header 并按实际字节数重新设置 Content-Length
+ */
+function toStoredHeaders(headers: Headers, body: Uint8Array): Array<[string, string]> {
+  const stored = new Headers(headers);
+  stored.delete("Content-Encoding");
+  stored.delete("Transfer-Encoding");
+  stored.set("Content-Length", String(body.byteLength));
+  return [...stored];
+}
+
+type CachePolicy = Pick<CachedResponse, "expiresAt" | "etag" | "lastModified" | "vary">;
+
+/**
+ * 按共享缓存的规则判断响应是否可缓存（只看 header，不读取响应体），不可缓存时返回 undefined
+ */
+function getCachePolicy(
+  response: Response,
+  requestHeaders: Headers,
+  now: number
+): CachePolicy | undefined {
+  if (response.status !== 200) return undefined;
+
+  const directives = parseCacheControl(response.headers.get("Cache-Control"));
+  if (directives.noStore || directives.private) return undefined;
+  // 带认证信息的请求只有明确允许共享时才缓存（RFC 9111 3.5）
+  if (
+    requestHeaders.has("Authorization") &&
+    !directives.public &&
+    !directives.mustRevalidate &&
+    directives.sMaxAge === undefined
+  ) {
+    return undefined;
+  }
+
+  const varyNames = getVaryHeaders(response.headers);
+  if (varyNames.includes("*")) return undefined;
+
+  const etag = response.headers.get("ETag") ?? undefined;
+  const lastModified = response.headers.get("Last-Modified") ?? undefined;
+  const lifetime = getFreshnessLifetime(directives, response.headers, now);
+  // 既没有过期信息也无法重新验证的响应不缓存
+  if (lifetime === undefined && !etag && !lastModified) return undefined;
+
+  return {
+    expiresAt: now + (lifetime ?? 0),
+    etag,
+    lastModified,
+    vary: Object.fromEntries(varyNames.map((name) => [name, requestHeaders.get(name)])),
+  };
+}
+
+/**
+ * 读取响应体，超过 limit 字节时停止缓冲，返回与原响应等价的 Response（已读部分 + 剩余部分）
+ */
+async function readBody(response: Response, limit: number): Promise<Uint8Array | Response> {
+  if (!response.body) return new Uint8Array(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+    if (size > limit) {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) controller.enqueue(chunk);
+        },
+        async pull(controller) {
+          const next = await reader.read();
+          if (next.done) controller.close();
+          else controller.enqueue(next.value);
+        },
+        cancel: (reason) => reader.cancel(reason),
+      });
+      return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    }
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+// 描述响应体编码的 header，304 中出现时不覆盖缓存条目
+const ENTITY_HEADERS = new Set(["content-length", "content-encoding", "transfer-encoding"]);
+
+/**
+ * 用 304 响应的 header 更新缓存条目（RFC 9111 4.3.4）
+ */
+function refreshEntry(
+  entry: CachedResponse,
+  notModified: Response,
+  now: number
+): CachedResponse {
+  const headers = new Headers(entry.headers);
+  notModified.headers.forEach((value, key) => {
+    if (!ENTITY_HEADERS.has(key)) headers.set(key, value);
+  });
+  const directives = parseCacheControl(headers.get("Cache-Control"));
+  const lifetime = getFreshnessLifetime(directives, headers, now) ?? 0;
+
+  return {
+    ...entry,
+    headers: [...headers],
+    storedAt: now,
+    expiresAt: now + lifetime,
+    etag: headers.get("ETag") ?? entry.etag,
+    lastModified: headers.get("Last-Modified") ?? entry.lastModified,
+  };
+}
+
+function toResponse(entry: Pick<CachedResponse, "status" | "statusText" | "headers" | "body">) {
+  // 每次返回新的 Response，多个调用方可以各自读取响应体
+  return new Response(entry.body.byteLength > 0 ? entry.body.slice() : null, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+}
+
+export interface CachedFetchRequest {
+  url: URL;
+  headers: Headers;
+  mode?: HttpCacheMode;
+  /**
+   * 是否与并发的相同请求合并（默认 true）
+   *
+   * 带调用方 signal 或单独超时的请求应传 false：合并后下游请求只受发起方的 signal 与超时控制
+   */
+  coalesce?: boolean;
+}
+
+/**
+ * 发往下游的请求类型：miss 无可用缓存；revalidate 附带条件请求 header；bypass 不经过缓存
+ */
+export type CacheRequestKind = "miss" | "revalidate" | "bypass";
+
+// entry：可共用的缓存结果；response：未缓冲的响应，只能交给发起请求的调用方
+type CacheOutcome =
+  | { status: "miss" | "revalidated"; entry: CachedResponse }
+  | { status: "miss" | "bypass"; response: Response };
+
+/**
+ * 经由缓存发送 GET 请求
+ *
+ * @param send 发送下游请求
+ * @param onResult 返回前回调最终的缓存状态（用于日志与 span）
+ */
+export async function fetchThroughCache(
+  cache: HttpCache,
+  request: CachedFetchRequest,
+  send: (headers: Headers, kind: CacheRequestKind) => Promise<Response>,
+  onResult: (status: HttpCacheStatus, response: Response, entry?: CachedResponse) => void
+): Promise<Response> {
+  const { url, headers, mode, coalesce = true } = request;
+  const finish = (status: HttpCacheStatus, response: Response, entry?: CachedResponse) => {
+    cache.record(status);
+    onResult(status, response, entry);
+    return response;
+  };
+
+  if (mode === "no-store") {
+    return finish("bypass", await send(headers, "bypass"));
+  }
+
+  const key = url.href;
+  const cached = mode === "reload" ? undefined : cache.get(key);
+  const entry = cached && matchesVary(cached, headers) ? cached : undefined;
+  if (entry && mode !== "no-cache" && Date.now() < entry.expiresAt) {
+    return finish("hit", toResponse(entry), entry);
+  }
+
+  // 不同认证信息或 header 的并发请求不能共用响应
+  const coalesceKey = JSON.stringify([key, mode ?? "", [...headers]]);
+  const fetchOutcome = async (): Promise<CacheOutcome> => {
+    const conditional = new Headers(headers);
+    const canRevalidate =
+      entry !== undefined &&
+      !headers.has("If-None-Match") &&
+      !headers.has("If-Modified-Since") &&
+      (entry.etag !== undefined || entry.lastModified !== undefined);
+    if (canRevalidate) {
+      if (entry.etag) conditional.set("If-None-Match", entry.etag);
+      if (entry.lastModified) conditional.set("If-Modified-Since", entry.lastModified);
+    }
+
+    const response = await send(conditional, canRevalidate ? "revalidate" : "miss");
+    const now = Date.now();
+
+    if (canRevalidate && response.status === 304) {
+      await response.body?.cancel();
+      const refreshed = refreshEntry(entry, response, now);
+      cache.set(key, refreshed);
+      return { status: "revalidated", entry: refreshed };
+    }
+    // 流式响应无法缓冲，原样返回给发起方
+    if (isStreamingResponse(response)) {
+      return { status: "bypass", response };
+    }
+    // 不可缓存或超过大小上限的响应不缓冲，原样返回
+    const policy = getCachePolicy(response, headers, now);
+    const contentLength = Number(response.headers.get("Content-Length") ?? 0);
+    if (!policy || contentLength > cache.maxSizeBytes) {
+      return { status: "miss", response };
+    }
+
+    const body = await readBody(response, cache.maxSizeBytes);
+    if (body instanceof Response) {
+      return { status: "miss", response: body };
+    }
+    const stored: CachedResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: toStoredHeaders(response.headers, body),
+      body,
+      storedAt: now,
+      ...policy,
+    };
+    cache.set(key, stored);
+    return { status: "miss", entry: stored };
+  };
+
+  const { value, shared } = coalesce
+    ? await cache.coalesce(coalesceKey, fetchOutcome)
+    : { value: await fetchOutcome(), shared: false };
+
+  if ("response" in value) {
+    // 未缓冲的响应无法共用，等待中的调用方自行发送请求
+    if (!shared) return finish(value.status, value.response);
+    return finish(value.status, await send(headers, value.status));
+  }
+  return finish(shared ? "coalesced" : value.status, toResponse(value.entry), value.entry);
+}
@@ -0,0 +1,258 @@
+/**
+ * 熔断器模块
+ *
+ * 下游服务不可用时快速失败，避免每个请求都等到超时。
+ * 熔断器实例登记在 globalThis 上，供调试端点读取（各入口 bundle 共享）
+ */
+
+import type { HealthCheckFn } from "../diagnostics/health";
+import { getLogger, type Logger } from "../logging/logger";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** 名称（通常为下游服务名），用于日志、健康检查与调试端点 */
+  name: string;
+  /** 连续失败多少次后打开（默认 5） */
+  consecutiveFailureThreshold?: number;
+  /** 窗口内失败率达到该值后打开（0 ~ 1，默认 0.5） */
+  failureRateThreshold?: number;
+  /** 计算失败率所需的最少请求数（默认 20） */
+  minimumRequests?: number;
+  /** 失败率统计窗口（毫秒，默认 60000） */
+  windowMs?: number;
+  /** 打开后多久进入半开状态（毫秒，默认 30000） */
+  openDurationMs?: number;
+  /** 半开状态同时允许的探测请求数（默认 1） */
+  halfOpenMaxProbes?: number;
+  /** 判断响应是否计为失败（默认 5xx） */
+  isFailure?: (response: Response) => boolean;
+  /** 状态变化日志使用的 logger（默认 getLogger()） */
+  logger?: Logger;
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** 窗口内请求数 */
+  requests: number;
+  /** 窗口内失败率（0 ~ 1） */
+  failureRate: number;
+  /** 打开时间（ISO 8601） */
+  openedAt?: string;
+  /** 允许下一次探测的时间（ISO 8601） */
+  retryAt?: string;
+}
+
+export interface CircuitBreaker {
+  readonly name: string;
+  getState(): CircuitState;
+  /** 申请发出一次请求；打开状态（或半开且探测名额已满）时返回 false */
+  tryAcquire(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  /** 归还未产生结果的请求名额（如调用方主动取消） */
+  release(): void;
+  /** 响应是否应计为失败 */
+  isFailure(response: Response): boolean;
+  /** 允许下一次探测的时间（毫秒时间戳），未打开时为 undefined */
+  getRetryAt(): number | undefined;
+  getSnapshot(): CircuitBreakerSnapshot;
+  /** 熔断器打开时返回 unhealthy 的健康检查函数 */
+  healthCheck(): HealthCheckFn;
+  reset(): void;
+}
+
+const REGISTRY_KEY = Symbol.for("@optima-chat/observability/circuit-breakers");
+
+function getRegistry(): Map<string, CircuitBreaker> {
+  const global = globalThis as { [REGISTRY_KEY]?: Map<string, CircuitBreaker> };
+  if (!global[REGISTRY_KEY]) {
+    global[REGISTRY_KEY] = new Map();
+  }
+  return global[REGISTRY_KEY];
+}
+
+/**
+ * 获取所有已创建熔断器的当前状态
+ */
+export function getCircuitBreakerSnapshots(): CircuitBreakerSnapshot[] {
+  return [...getRegistry().values()].map((breaker) => breaker.getSnapshot());
+}
+
+/**
+ * 创建熔断器
+ *
+ * closed：正常放行，连续失败或窗口失败率超过阈值时打开；
+ * open：直接拒绝，`openDurationMs` 后进入半开；
+ * half-open：放行少量探测请求，成功则关闭，失败则重新打开。
+ * 同名熔断器会替换调试端点中的旧实例。
+ *
+ * @example
+ * const breaker = createCircuitBreaker({ name: 'user-auth' });
+ * const authApi = createTracedClient('http://user-auth:8000', { circuitBreaker: breaker });
+ *
+ * export const GET = createHealthHandler({
+ *   serviceName: 'commerce-backend',
+ *   checks: { 'user-auth': breaker.healthCheck() },
+ * });
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  const {
+    name,
+    consecutiveFailureThreshold = 5,
+    failureRateThreshold = 0.5,
+    minimumRequests = 20,
+    windowMs = 60_000,
+    openDurationMs = 30_000,
+    halfOpenMaxProbes = 1,
+    isFailure = (response: Response) => response.status >= 500,
+  } = options;
+  // 状态变化时获取，模块级创建的熔断器也能使用之后配置的 logger
+  const getBreakerLogger = () => options.logger ?? getLogger();
+
+  let state: CircuitState = "closed";
+  let consecutiveFailures = 0;
+  let openedAt: number | undefined;
+  let probes = 0;
+  // 窗口内的请求结果：[时间戳, 是否失败]
+  let outcomes: Array<[number, boolean]> = [];
+
+  const prune = (now: number) => {
+    const start = now - windowMs;
+    if (outcomes.length > 0 && outcomes[0][0] < start) {
+      outcomes = outcomes.filter(([time]) => time >= start);
+    }
+  };
+
+  const getFailureRate = () =>
+    outcomes.length === 0
+      ? 0
+      : outcomes.filter(([, failed]) => failed).length / outcomes.length;
+
+  const open = (now: number) => {
+    state = "open";
+    openedAt = now;
+    probes = 0;
+    getBreakerLogger().warn("Circuit breaker opened", {
+      circuit: name,
+      consecutiveFailures,
+      failureRate: getFailureRate(),
+      requests: outcomes.length,
+    });
+  };
+
+  const close = () => {
+    state = "closed";
+    openedAt = undefined;
+    probes = 0;
+    consecutiveFailures = 0;
+    outcomes = [];
+    getBreakerLogger().info("Circuit breaker closed", { circuit: name });
+  };
+
+  const getRetryAt = () =>
+    openedAt !== undefined ? openedAt + openDurationMs : undefined;
+
+  const breaker: CircuitBreaker = {
+    name,
+
+    getState() {
+      if (state === "open" && Date.now() >= getRetryAt()!) {
+        state = "half-open";
+        probes = 0;
+      }
+      return state;
+    },
+
+    tryAcquire() {
+      const current = breaker.getState();
+      if (current === "closed") return true;
+      if (current === "half-open" && probes < halfOpenMaxProbes) {
+        probes++;
+        return true;
+      }
+      return false;
+    },
+
+    recordSuccess() {
+      if (state === "half-open") {
+        close();
+        return;
+      }
+      const now = Date.now();
+      consecutiveFailures = 0;
+      outcomes.push([now, false]);
+      prune(now);
+    },
+
+    recordFailure() {
+      const now = Date.now();
+      consecutiveFailures++;
+      if (state === "half-open") {
+        open(now);
+        return;
+      }
+      if (state === "open") return;
+
+      outcomes.push([now, true]);
+      prune(now);
+      if (
+        consecutiveFailures >= consecutiveFailureThreshold ||
+        (outcomes.length >= minimumRequests &&
+          getFailureRate() >= failureRateThreshold)
+      ) {
+        open(now);
+      }
+    },
+
+    release() {
+      if (state === "half-open" && probes > 0) {
+        probes--;
+      }
+    },
+
+    isFailure,
+
+    getRetryAt,
+
+    getSnapshot() {
+      const current = breaker.getState();
+      prune(Date.now());
+      const retryAt = getRetryAt();
+      return {
+        name,
+        state: current,
+        consecutiveFailures,
+        requests: outcomes.length,
+        failureRate: getFailureRate(),
+        openedAt: openedAt !== undefined ? new Date(openedAt).toISOString() : undefined,
+        retryAt: retryAt !== undefined ? new Date(retryAt).toISOString() : undefined,
+      };
+    },
+
+    healthCheck() {
+      return () => {
+        const snapshot = breaker.getSnapshot();
+        return snapshot.state === "open"
+          ? {
+              status: "unhealthy",
+              error: `circuit open (retry at ${snapshot.retryAt})`,
+            }
+          : { status: "healthy" };
+      };
+    },
+
+    reset() {
+      state = "closed";
+      openedAt = undefined;
+      probes = 0;
+      consecutiveFailures = 0;
+      outcomes = [];
+    },
+  };
+
+  getRegistry().set(name, breaker);
+  return breaker;
+}
@@ -2,17 +2,126 @@
  * 带追踪的 HTTP 客户端模块
  */
 
-import { getTraceHeaders } from "../tracing/middleware";
+import { getLogger, type Logger } from "../logging/logger";
+import {
+  captureTraceContext,
+  getTraceContext,
+  restoreTraceContext,
+  runWithTraceContext,
+} from "../tracing/context";
+import {
+  getTraceHeaders,
+  REQUEST_ID_HEADER,
+  REQUEST_TIMEOUT_HEADER,
+  SERVED_BY_HEADER,
+  TRACE_ID_HEADER,
+} from "../tracing/middleware";
+import { normalizeRoutePath } from "../tracing/route";
+import { contextWithSpan, getActiveSpan, startSpan } from "../tracing/span";
+import {
+  createHttpCache,
+  fetchThroughCache,
+  type CachedResponse,
+  type CacheRequestKind,
+  type HttpCache,
+  type HttpCacheMode,
+  type HttpCacheOptions,
+  type HttpCacheStatus,
+} from "./cache";
+import {
+  createCircuitBreaker,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+} from "./circuit-breaker";
+import {
+  CircuitOpenError,
+  HttpError,
+  HttpTimeoutError,
+  ResponseValidationError,
+} from "./errors";
+import { TRACED_REQUEST } from "./global-fetch";
+import {
+  getRetryDelay,
+  isRetryableRequest,
+  resolveRetryPolicy,
+  type RetryOptions,
+} from "./retry";
 
 export interface TracedFetchOptions extends RequestInit {
   /** 是否自动注入追踪 header（默认 true） */
   injectTracing?: boolean;
+  /** 记录失败与慢请求使用的 logger（默认 getLogger()） */
+  logger?: Logger;
+  /** 超过该耗时（毫秒）记录慢请求日志（默认 1000，0 表示不记录） */
+  slowThresholdMs?: number;
+  /** 当前请求是第几次重试（由重试逻辑传入，默认 0） */
+  retryCount?: number;
+  /** 经由客户端缓存发出时的请求类型（由缓存逻辑传入，记录到 span 的 `http.cache` 与日志） */
+  cacheStatus?: CacheRequestKind;
+  /** 发出请求使用的 fetch（由全局插桩传入插桩前的 fetch，默认为调用时的 globalThis.fetch） */
+  fetch?: typeof fetch;
+  /**
+   * 超时时间（毫秒），到收到响应 header 为止
+   *
+   * 追踪上下文中有上游截止时间时取两者较小值，剩余预算通过 `X-Request-Timeout-Ms` 传给下游
+   */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_SLOW_THRESHOLD_MS = 1000;
+
+/**
+ * 计算请求体字节数（无法直接得知时返回 undefined）
+ */
+function getBodySize(body: RequestInit["body"]): number | undefined {
+  if (typeof body === "string") {
+    return new TextEncoder().encode(body).byteLength;
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  if (body instanceof URLSearchParams) {
+    return new TextEncoder().encode(body.toString()).byteLength;
+  }
+  return undefined;
+}
+
+/**
+ * 取出 URL 的 host 与规范化后的路由（用于 span 与日志聚合）
+ */
+function describeUrl(url: string | URL): { host: string; route: string } {
+  try {
+    const parsed = new URL(String(url));
+    return { host: parsed.host, route: normalizeRoutePath(parsed.pathname) };
+  } catch {
+    return { host: "", route: normalizeRoutePath(String(url).split("?")[0]) };
+  }
+}
+
+/**
+ * 计算实际生效的超时：本次调用的 timeoutMs 与上游截止时间的剩余预算取较小值
+ */
+function resolveTimeout(timeoutMs: number | undefined): number | undefined {
+  const { deadline } = getTraceContext();
+  const remaining =
+    deadline !== undefined ? Math.max(0, deadline - Date.now()) : undefined;
+  if (timeoutMs === undefined) return remaining;
+  if (remaining === undefined) return timeoutMs;
+  return Math.min(timeoutMs, remaining);
+}
+
+function parseSize(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const size = Number(value);
+  return Number.isFinite(size) && size >= 0 ? size : undefined;
 }
 
 /**
  * 带追踪的 fetch 函数
  *
- * 自动注入追踪 header 到请求中
+ * 自动注入追踪 header 到请求中；已有追踪上下文时为每次调用创建 client span，
+ * 记录 host、路由、状态码、字节数与上游的 `X-Request-ID` / `X-Served-By`。
+ * 失败（网络异常或 5xx）与慢请求通过 logger 记录。
  *
  * @example
  * import { tracedFetch } from '@optima/core/http';
@@ -26,16 +135,63 @@ export interface TracedFetchOptions extends RequestInit {
  * });
  */
 export async function tracedFetch(
-  url: string | URL,
+  url: string | URL | Request,
   options: TracedFetchOptions = {}
 ): Promise<Response> {
-  const { injectTracing = true, headers: userHeaders, ...restOptions } = options;
+  // Request 对象：header、方法与 signal 作为默认值，options 中的同名参数优先
+  const request = url instanceof Request ? url : undefined;
+  const target = request ? request.url : String(url);
+  const {
+    injectTracing = true,
+    logger: loggerOption,
+    slowThresholdMs = DEFAULT_SLOW_THRESHOLD_MS,
+    retryCount = 0,
+    cacheStatus,
+    timeoutMs,
+    fetch: fetchImpl = globalThis.fetch,
+    headers: userHeaders = request?.headers,
+    signal: callerSignal = request?.signal,
+    ...restOptions
+  } = options;
 
+  // 每次调用时获取，模块级创建的客户端也能使用之后配置的 logger
+  const logger = loggerOption ?? getLogger();
   const headers = new Headers(userHeaders);
+  const method = (restOptions.method || request?.method || "GET").toUpperCase();
+  const { host, route } = describeUrl(target);
+  const requestSize = getBodySize(restOptions.body);
+  const startTime = Date.now();
 
-  // 注入追踪 header
+  // 仅在已有追踪上下文时创建 client span
+  const span =
+    injectTracing && getTraceContext().traceId
+      ? startSpan(`HTTP ${method}`, {
+          kind: "client",
+          startTime,
+          attributes: {
+            "http.method": method,
+            "http.url": target,
+            "http.host": host,
+            "http.route": route,
+            "http.retry_count": retryCount,
+            ...(cacheStatus ? { "http.cache": cacheStatus } : {}),
+            ...(requestSize !== undefined
+              ? { "http.request_content_length": requestSize }
+              : {}),
+          },
+        })
+      : undefined;
+
+  const effectiveTimeout = resolveTimeout(timeoutMs);
+
+  // 注入追踪 header：client span 即下游 server span 的父 span
   if (injectTracing) {
-    const traceHeaders = getTraceHeaders();
+    const traceHeaders = span
+      ? runWithTraceContext(contextWithSpan(span), getTraceHeaders)
+      : getTraceHeaders();
+    if (effectiveTimeout !== undefined) {
+      traceHeaders[REQUEST_TIMEOUT_HEADER] = String(effectiveTimeout);
+    }
     for (const [key, value] of Object.entries(traceHeaders)) {
       if (!headers.has(key)) {
         headers.set(key, value);
@@ -43,39 +199,686 @@ export async function tracedFetch(
     }
   }
 
-  return fetch(url, {
-    ...restOptions,
-    headers,
+  const { traceId, requestId } = getTraceContext();
+  const timeoutError =
+    effectiveTimeout !== undefined
+      ? new HttpTimeoutError({
+          url: target,
+          method,
+          timeoutMs: effectiveTimeout,
+          traceId,
+          requestId,
+        })
+      : undefined;
+
+  // 超时与调用方的 AbortSignal 合并为同一个 signal
+  let signal = callerSignal;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onCallerAbort: (() => void) | undefined;
+  if (timeoutError) {
+    const controller = new AbortController();
+    signal = controller.signal;
+    if (callerSignal?.aborted) {
+      controller.abort(callerSignal.reason);
+    } else {
+      onCallerAbort = () => controller.abort(callerSignal!.reason);
+      callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+      if (effectiveTimeout! <= 0) {
+        controller.abort(timeoutError);
+      } else {
+        timer = setTimeout(() => controller.abort(timeoutError), effectiveTimeout);
+      }
+    }
+  }
+
+  const logExtra = (extra: Record<string, unknown>) => ({
+    method,
+    host,
+    route,
+    ...(retryCount > 0 ? { retryCount } : {}),
+    ...(cacheStatus ? { cache: cacheStatus } : {}),
+    ...extra,
+  });
+
+  let response: Response;
+  try {
+    // 截止时间已过或调用方已取消时不再发出请求
+    signal?.throwIfAborted();
+    // 调用时解析 fetch，之后安装的测试替身同样生效；标记让插桩后的 fetch 直接透传
+    response = await fetchImpl(url, {
+      ...restOptions,
+      headers,
+      ...(signal ? { signal } : {}),
+      [TRACED_REQUEST]: true,
+    } as RequestInit);
+  } catch (caught) {
+    // 超时统一抛出 HttpTimeoutError（部分 fetch 实现会包装 abort reason）
+    const error = signal?.aborted && signal.reason === timeoutError ? timeoutError : caught;
+    span?.recordException(error);
+    span?.setStatus("error", error instanceof Error ? error.message : String(error));
+    span?.end();
+    logger.exception(
+      "Outbound request failed",
+      error instanceof Error ? error : new Error(String(error)),
+      logExtra({ durationMs: Date.now() - startTime })
+    );
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    // 长期存在的调用方 signal 不累积监听器
+    if (onCallerAbort) {
+      callerSignal?.removeEventListener("abort", onCallerAbort);
+    }
+  }
+
+  // 上游的 request_id / 服务实例，便于直接跳转到被调方日志
+  const upstreamRequestId = response.headers.get(REQUEST_ID_HEADER) || undefined;
+  const upstreamServedBy = response.headers.get(SERVED_BY_HEADER) || undefined;
+  const responseSize = parseSize(response.headers.get("Content-Length"));
+
+  span?.setAttributes({
+    "http.status_code": response.status,
+    "http.response_content_length": responseSize,
+    "upstream.request_id": upstreamRequestId,
+    "upstream.served_by": upstreamServedBy,
+  });
+  if (response.status >= 500) {
+    span?.setStatus("error");
+  }
+  span?.end();
+
+  const durationMs = Date.now() - startTime;
+  const extra = logExtra({
+    status: response.status,
+    durationMs,
+    ...(responseSize !== undefined ? { responseSize } : {}),
+    ...(upstreamRequestId ? { upstreamRequestId } : {}),
+    ...(upstreamServedBy ? { upstreamServedBy } : {}),
+  });
+  if (response.status >= 500) {
+    logger.warn("Outbound request failed", extra);
+  } else if (slowThresholdMs > 0 && durationMs >= slowThresholdMs) {
+    logger.warn("Slow outbound request", extra);
+  }
+
+  return response;
+}
+
+export interface TracedClientOptions {
+  /** 默认超时时间（毫秒），可在单次调用中通过 `timeoutMs` 覆盖 */
+  timeoutMs?: number;
+  /** 默认重试策略（默认不重试），可在单次调用中通过 `retry` 覆盖 */
+  retry?: RetryOptions | false;
+  /** 熔断器实例或创建参数（默认不启用） */
+  circuitBreaker?: CircuitBreaker | CircuitBreakerOptions;
+  /** 每个请求的默认 header，可被单次调用的 header 覆盖 */
+  headers?: RequestInit["headers"];
+  /** 拦截器，见 TracedClientInterceptor */
+  interceptors?: TracedClientInterceptor[];
+  /** GET 响应缓存实例或创建参数（默认不启用），可在多个客户端间共享实例 */
+  cache?: HttpCache | HttpCacheOptions;
+}
+
+export interface TracedRequestOptions extends TracedFetchOptions {
+  /** 本次调用的重试策略，false 表示不重试 */
+  retry?: RetryOptions | false;
+  /** 本次调用的缓存模式（客户端启用 `cache` 时生效） */
+  cache?: HttpCacheMode;
+}
+
+/**
+ * 等待指定时间，signal 取消时提前 reject
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 记录一次重试：在当前 span 上添加 `http.retry` 事件并输出日志
+ */
+function recordRetry(
+  logger: Logger,
+  url: URL,
+  method: string,
+  attempt: number,
+  delayMs: number,
+  reason: { status?: number; error?: unknown }
+): void {
+  const { host, route } = describeUrl(url);
+  const errorMessage =
+    reason.error instanceof Error
+      ? reason.error.message
+      : reason.error !== undefined
+        ? String(reason.error)
+        : undefined;
+
+  getActiveSpan()?.addEvent("http.retry", {
+    "http.method": method,
+    "http.host": host,
+    "http.retry_count": attempt,
+    "retry.delay_ms": delayMs,
+    ...(reason.status !== undefined ? { "http.status_code": reason.status } : {}),
+    ...(errorMessage ? { "exception.message": errorMessage } : {}),
+  });
+  logger.warn("Retrying outbound request", {
+    method,
+    host,
+    route,
+    retryCount: attempt,
+    delayMs,
+    status: reason.status,
+    error: errorMessage,
+  });
+}
+
+/**
+ * 记录未发出下游请求的缓存结果（hit / coalesced）：创建 client span 并输出 debug 日志
+ */
+function recordCacheResult(
+  logger: Logger,
+  url: URL,
+  status: HttpCacheStatus,
+  response: Response,
+  entry: CachedResponse | undefined
+): void {
+  const { host, route } = describeUrl(url);
+  const ageMs = entry ? Date.now() - entry.storedAt : undefined;
+
+  if (getTraceContext().traceId) {
+    startSpan("HTTP GET", {
+      kind: "client",
+      attributes: {
+        "http.method": "GET",
+        "http.url": url.href,
+        "http.host": host,
+        "http.route": route,
+        "http.status_code": response.status,
+        "http.cache": status,
+        ...(ageMs !== undefined ? { "http.cache_age_ms": ageMs } : {}),
+      },
+    }).end();
+  }
+  logger.debug("Outbound request served from cache", {
+    method: "GET",
+    host,
+    route,
+    status: response.status,
+    cache: status,
+    ...(ageMs !== undefined ? { ageMs } : {}),
+  });
+}
+
+/**
+ * 响应校验器：校验函数，或带 `parse` 方法的 schema（如 zod）
+ *
+ * 校验失败时抛出异常，返回值作为解析结果
+ */
+export type ResponseValidator<T> =
+  | ((data: unknown) => T)
+  | { parse(data: unknown): T };
+
+export interface JsonRequestOptions<T> extends TracedRequestOptions {
+  /** 响应校验器，未通过时抛出 ResponseValidationError */
+  schema?: ResponseValidator<T>;
+}
+
+// HttpError 中保留的响应体最大长度
+const MAX_ERROR_BODY_LENGTH = 1024;
+
+/**
+ * 读取响应中的下游追踪信息（缺少 `X-Trace-ID` 时使用本地 trace_id）
+ */
+function getUpstreamIds(response: Response) {
+  return {
+    traceId: response.headers.get(TRACE_ID_HEADER) || getTraceContext().traceId,
+    requestId: response.headers.get(REQUEST_ID_HEADER) || undefined,
+    servedBy: response.headers.get(SERVED_BY_HEADER) || undefined,
+  };
+}
+
+/**
+ * 将非 2xx 响应转换为 HttpError（响应体截断到 1024 字符）
+ */
+async function toHttpError(
+  response: Response,
+  method: string,
+  url: URL
+): Promise<HttpError> {
+  let body: string | undefined;
+  try {
+    const text = await response.text();
+    body =
+      text.length > MAX_ERROR_BODY_LENGTH
+        ? `${text.slice(0, MAX_ERROR_BODY_LENGTH)}…`
+        : text || undefined;
+  } catch {
+    body = undefined;
+  }
+
+  return new HttpError({
+    status: response.status,
+    statusText: response.statusText || undefined,
+    url: String(url),
+    method,
+    body,
+    ...getUpstreamIds(response),
   });
 }
 
+/**
+ * 解析 JSON 响应：非 2xx 抛出 HttpError，解析或校验失败抛出 ResponseValidationError
+ */
+async function parseJsonResponse<T>(
+  response: Response,
+  method: string,
+  url: URL,
+  schema: ResponseValidator<T> | undefined
+): Promise<T> {
+  if (!response.ok) {
+    throw await toHttpError(response, method, url);
+  }
+
+  try {
+    const text = await response.text();
+    const data: unknown = text ? JSON.parse(text) : undefined;
+    if (!schema) {
+      return data as T;
+    }
+    return typeof schema === "function" ? schema(data) : schema.parse(data);
+  } catch (error) {
+    const { traceId, requestId } = getUpstreamIds(response);
+    throw new ResponseValidationError({
+      status: response.status,
+      url: String(url),
+      method,
+      traceId,
+      requestId,
+      cause: error,
+    });
+  }
+}
+
+/**
+ * 经熔断器发送单次请求
+ *
+ * 熔断器打开时不发出请求，直接抛出 CircuitOpenError；
+ * 调用方主动取消的请求不计入成功或失败
+ */
+async function fetchThroughBreaker(
+  url: URL,
+  init: TracedFetchOptions,
+  breaker: CircuitBreaker | undefined
+): Promise<Response> {
+  if (!breaker) {
+    return tracedFetch(url, init);
+  }
+
+  if (!breaker.tryAcquire()) {
+    const method = (init.method || "GET").toUpperCase();
+    const retryAt = breaker.getRetryAt() ?? Date.now();
+    getActiveSpan()?.addEvent("http.circuit_open", {
+      "http.method": method,
+      "http.host": url.host,
+      "circuit.name": breaker.name,
+    });
+    throw new CircuitOpenError({
+      name: breaker.name,
+      url: String(url),
+      method,
+      retryAt,
+      traceId: getTraceContext().traceId,
+    });
+  }
+
+  try {
+    const response = await tracedFetch(url, init);
+    if (breaker.isFailure(response)) {
+      breaker.recordFailure();
+    } else {
+      breaker.recordSuccess();
+    }
+    return response;
+  } catch (error) {
+    if (init.signal?.aborted) {
+      breaker.release();
+    } else {
+      breaker.recordFailure();
+    }
+    throw error;
+  }
+}
+
+/**
+ * 按重试策略发送请求
+ *
+ * 每次尝试都是独立的 client span（`http.retry_count` 标记第几次重试），
+ * 最后一次的响应或异常原样返回给调用方
+ */
+async function fetchWithRetry(
+  url: URL,
+  init: TracedFetchOptions,
+  retry: RetryOptions,
+  breaker: CircuitBreaker | undefined
+): Promise<Response> {
+  const policy = resolveRetryPolicy(retry);
+  const method = (init.method || "GET").toUpperCase();
+  const logger = init.logger ?? getLogger();
+  const retryable = isRetryableRequest(
+    method,
+    new Headers(init.headers),
+    init.body,
+    policy
+  );
+
+  for (let attempt = 0; ; attempt++) {
+    let canRetry = retryable && attempt + 1 < policy.maxAttempts;
+
+    let response: Response;
+    try {
+      response = await fetchThroughBreaker(
+        url,
+        { ...init, retryCount: attempt },
+        breaker
+      );
+    } catch (error) {
+      // 调用方主动取消、请求被熔断器拒绝或本次失败使熔断器打开时不重试
+      canRetry &&= breaker?.getState() !== "open";
+      if (
+        !canRetry ||
+        !policy.retryOnNetworkError ||
+        init.signal?.aborted ||
+        error instanceof CircuitOpenError
+      ) {
+        throw error;
+      }
+      const delay = getRetryDelay(attempt + 1, policy);
+      if (delay === undefined) throw error;
+      recordRetry(logger, url, method, attempt + 1, delay, { error });
+      await sleep(delay, init.signal);
+      continue;
+    }
+
+    // 熔断器已打开时直接返回本次响应，保留真实的失败原因
+    canRetry &&= breaker?.getState() !== "open";
+    if (!canRetry || !policy.retryOn.includes(response.status)) {
+      return response;
+    }
+    const delay = getRetryDelay(attempt + 1, policy, response);
+    if (delay === undefined) {
+      return response;
+    }
+    // 丢弃本次响应体，释放连接
+    await response.body?.cancel().catch(() => undefined);
+    recordRetry(logger, url, method, attempt + 1, delay, {
+      status: response.status,
+    });
+    await sleep(delay, init.signal);
+  }
+}
+
+export interface TracedClientRequest {
+  url: URL;
+  method: string;
+  headers: Headers;
+  /** 其余请求参数（body、timeoutMs、retry 等） */
+  options: TracedRequestOptions;
+}
+
+/**
+ * 客户端拦截器
+ *
+ * `onRequest` 按注册顺序执行，`onResponse` / `onError` 按相反顺序执行；
+ * 钩子均在调用方的追踪上下文中运行，可直接使用 getTraceContext() 与 logger
+ */
+export interface TracedClientInterceptor {
+  /** 修改请求（如添加认证 token、租户 header）；返回新请求或直接修改传入的请求 */
+  onRequest?(
+    request: TracedClientRequest
+  ): TracedClientRequest | void | Promise<TracedClientRequest | void>;
+  /** 处理响应（如解包响应体）；返回新响应或 undefined 保留原响应 */
+  onResponse?(
+    response: Response,
+    request: TracedClientRequest
+  ): Response | void | Promise<Response | void>;
+  /** 处理请求异常（网络异常、超时、熔断）；返回响应表示已恢复，否则继续抛出原异常 */
+  onError?(
+    error: unknown,
+    request: TracedClientRequest
+  ): Response | void | Promise<Response | void>;
+}
+
+/**
+ * 拼接基础 URL 与请求路径
+ *
+ * 与 `new URL(path, base)` 不同，以 `/` 开头的路径不会丢弃基础 URL 中的路径前缀；
+ * 完整 URL 原样使用
+ */
+function joinUrl(baseUrl: string, path: string): URL {
+  if (/^[a-z][a-z\d+.-]*:\/\//i.test(path)) {
+    return new URL(path);
+  }
+  const base = new URL(baseUrl);
+  if (!base.pathname.endsWith("/")) {
+    base.pathname += "/";
+  }
+  return new URL(path.replace(/^\/+/, ""), base);
+}
+
+/**
+ * 合并默认 header 与本次请求的 header（后者优先）
+ */
+function mergeHeaders(
+  defaults: RequestInit["headers"],
+  headers: RequestInit["headers"]
+): Headers {
+  const merged = new Headers(defaults);
+  new Headers(headers).forEach((value, key) => merged.set(key, value));
+  return merged;
+}
+
+function withJsonBody(
+  options: TracedRequestOptions | undefined,
+  body: unknown
+): TracedRequestOptions {
+  const headers = new Headers(options?.headers);
+  if (!headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  return { ...options, headers, body: body ? JSON.stringify(body) : undefined };
+}
+
 /**
  * 创建带基础 URL 的 traced fetch 客户端
  *
+ * 配置 `retry` 后，429 / 502 / 503 / 504 与网络异常按指数退避重试；
+ * POST / PATCH 仅在带有 `Idempotency-Key` 时重试。
+ * 配置 `circuitBreaker` 后，下游持续失败时快速失败并抛出 CircuitOpenError。
+ * `interceptors` 在每次调用时执行一次（不随重试重复执行）。
+ * 配置 `cache` 后，GET 响应按 `Cache-Control` 缓存，过期后使用 `ETag` / `Last-Modified`
+ * 条件请求重新验证，并发的相同请求只发出一次；单次调用可通过 `cache: "no-store"` 等跳过。
+ *
  * @example
- * const api = createTracedClient('http://user-auth:8000');
+ * const api = createTracedClient('http://user-auth:8000/api/v1', {
+ *   timeoutMs: 5000,
+ *   retry: { maxAttempts: 3 },
+ * });
+ *
+ * const response = await api.get('/users/123'); // => http://user-auth:8000/api/v1/users/123
+ * const data = await api.post('/users', { name: 'John' }, { timeoutMs: 1000 });
  *
- * const response = await api.get('/users/123');
- * const data = await api.post('/users', { name: 'John' });
+ * // 解析 JSON，非 2xx 抛出 HttpError
+ * const user = await api.getJson<User>('/users/123', { schema: UserSchema });
+ *
+ * @example
+ * const api = createTracedClient({
+ *   baseUrl: 'http://commerce-backend:8000',
+ *   headers: { 'X-Tenant-ID': tenantId },
+ *   interceptors: [{
+ *     async onRequest(request) {
+ *       request.headers.set('Authorization', `Bearer ${await getServiceToken()}`);
+ *     },
+ *   }],
+ * });
  */
-export function createTracedClient(baseUrl: string) {
+export function createTracedClient(
+  baseUrlOrOptions: string | (TracedClientOptions & { baseUrl: string }),
+  options: TracedClientOptions = {}
+) {
+  const clientOptions =
+    typeof baseUrlOrOptions === "string" ? options : baseUrlOrOptions;
+  const baseUrl =
+    typeof baseUrlOrOptions === "string"
+      ? baseUrlOrOptions
+      : baseUrlOrOptions.baseUrl;
+  const {
+    circuitBreaker: breakerOption,
+    interceptors = [],
+    cache: cacheOption,
+  } = clientOptions;
+  const circuitBreaker =
+    breakerOption && !("tryAcquire" in breakerOption)
+      ? createCircuitBreaker(breakerOption)
+      : breakerOption;
+  const cache =
+    cacheOption && !("coalesce" in cacheOption) ? createHttpCache(cacheOption) : cacheOption;
+  const reversedInterceptors = [...interceptors].reverse();
+
+  async function execute(
+    method: string,
+    path: string,
+    options: TracedRequestOptions
+  ): Promise<{ response: Response; request: TracedClientRequest }> {
+    // 同步存储下 await 之后上下文会丢失，钩子与请求都在调用时的快照中运行
+    const snapshot = captureTraceContext();
+    const inContext = <T>(fn: () => T) => restoreTraceContext(snapshot, fn);
+
+    let request: TracedClientRequest = {
+      url: joinUrl(baseUrl, path),
+      method,
+      headers: mergeHeaders(clientOptions.headers, options.headers),
+      options,
+    };
+    for (const interceptor of interceptors) {
+      if (!interceptor.onRequest) continue;
+      const current = request;
+      request = (await inContext(() => interceptor.onRequest!(current))) ?? current;
+    }
+
+    let response: Response;
+    try {
+      const current = request;
+      response = await inContext(() => sendThroughCache(current));
+    } catch (error) {
+      let recovered: Response | void = undefined;
+      for (const interceptor of reversedInterceptors) {
+        if (!interceptor.onError) continue;
+        recovered = await inContext(() => interceptor.onError!(error, request));
+        if (recovered) break;
+      }
+      if (!recovered) throw error;
+      response = recovered;
+    }
+
+    for (const interceptor of reversedInterceptors) {
+      if (!interceptor.onResponse) continue;
+      const current = response;
+      response =
+        (await inContext(() => interceptor.onResponse!(current, request))) ?? current;
+    }
+    return { response, request };
+  }
+
   async function request(
     method: string,
     path: string,
-    options: TracedFetchOptions = {}
+    options: TracedRequestOptions = {}
+  ): Promise<Response> {
+    return (await execute(method, path, options)).response;
+  }
+
+  async function sendThroughCache(request: TracedClientRequest): Promise<Response> {
+    const { url, method, headers } = request;
+    const { cache: mode, ...options } = request.options;
+    if (!cache || method !== "GET") {
+      return send(url, method, { ...options, headers });
+    }
+    return fetchThroughCache(
+      cache,
+      {
+        url,
+        headers,
+        mode,
+        // 调用方的取消与超时只作用于自己的请求，不合并到其他调用发起的请求
+        coalesce: !options.signal && options.timeoutMs === undefined,
+      },
+      (requestHeaders, kind) =>
+        send(url, method, { ...options, headers: requestHeaders, cacheStatus: kind }),
+      (status, response, entry) => {
+        if (status === "hit" || status === "coalesced") {
+          recordCacheResult(options.logger ?? getLogger(), url, status, response, entry);
+        }
+      }
+    );
+  }
+
+  async function send(
+    url: URL,
+    method: string,
+    options: TracedRequestOptions
   ): Promise<Response> {
-    const url = new URL(path, baseUrl);
-    return tracedFetch(url, {
+    const { retry = clientOptions.retry, ...fetchOptions } = options;
+    const init: TracedFetchOptions = {
       method,
-      ...options,
+      timeoutMs: clientOptions.timeoutMs,
+      ...fetchOptions,
+    };
+    return retry
+      ? fetchWithRetry(url, init, retry, circuitBreaker)
+      : fetchThroughBreaker(url, init, circuitBreaker);
+  }
+
+  async function requestJson<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    options: JsonRequestOptions<T> = {}
+  ): Promise<T> {
+    const { schema, ...requestOptions } = options;
+    const headers = new Headers(requestOptions.headers);
+    if (!headers.has("Accept")) {
+      headers.set("Accept", "application/json");
+    }
+    if (body !== undefined && !headers.has("Content-Type")) {
+      headers.set("Content-Type", "application/json");
+    }
+
+    const { response, request } = await execute(method, path, {
+      ...requestOptions,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : requestOptions.body,
     });
+    return parseJsonResponse(response, request.method, request.url, schema);
   }
 
   return {
     /**
      * 发送 GET 请求
      */
-    get: (path: string, options?: TracedFetchOptions) =>
+    get: (path: string, options?: TracedRequestOptions) =>
       request("GET", path, options),
 
     /**
@@ -84,16 +887,8 @@ export function createTracedClient(baseUrl: string) {
     post: (
       path: string,
       body?: unknown,
-      options?: TracedFetchOptions
-    ) =>
-      request("POST", path, {
-        ...options,
-        headers: {
-          "Content-Type": "application/json",
-          ...options?.headers,
-        },
-        body: body ? JSON.stringify(body) : undefined,
-      }),
+      options?: TracedRequestOptions
+    ) => request("POST", path, withJsonBody(options, body)),
 
     /**
      * 发送 PUT 请求
@@ -101,16 +896,8 @@ export function createTracedClient(baseUrl: string) {
     put: (
       path: string,
       body?: unknown,
-      options?: TracedFetchOptions
-    ) =>
-      request("PUT", path, {
-        ...options,
-        headers: {
-          "Content-Type": "application/json",
-          ...options?.headers,
-        },
-        body: body ? JSON.stringify(body) : undefined,
-      }),
+      options?: TracedRequestOptions
+    ) => request("PUT", path, withJsonBody(options, body)),
 
     /**
      * 发送 PATCH 请求
@@ -118,26 +905,49 @@ export function createTracedClient(baseUrl: string) {
     patch: (
       path: string,
       body?: unknown,
-      options?: TracedFetchOptions
-    ) =>
-      request("PATCH", path, {
-        ...options,
-        headers: {
-          "Content-Type": "application/json",
-          ...options?.headers,
-        },
-        body: body ? JSON.stringify(body) : undefined,
-      }),
-
+      options?: TracedRequestOptions
+    ) => request("PATCH", path, withJsonBody(options, body)),
     /**
      * 发送 DELETE 请求
      */
-    delete: (path: string, options?: TracedFetchOptions) =>
+    delete: (path: string, options?: TracedRequestOptions) =>
       request("DELETE", path, options),
 
     /**
      * 发送自定义请求
      */
     request,
+
+    /**
+     * 发送 GET 请求并解析 JSON 响应
+     *
+     * 非 2xx 抛出 HttpError；传入 `schema` 时校验响应
+     */
+    getJson: <T = unknown>(path: string, options?: JsonRequestOptions<T>) =>
+      requestJson<T>("GET", path, undefined, options),
+
+    /**
+     * 发送 JSON 请求体的 POST 请求并解析 JSON 响应
+     */
+    postJson: <T = unknown>(
+      path: string,
+      body?: unknown,
+      options?: JsonRequestOptions<T>
+    ) => requestJson<T>("POST", path, body, options),
+
+    /**
+     * 发送自定义 JSON 请求
+     */
+    requestJson,
+
+    /**
+     * 客户端使用的熔断器（未启用时为 undefined）
+     */
+    circuitBreaker,
+
+    /**
+     * 客户端使用的响应缓存（未启用时为 undefined）
+     */
+    cache,
   };
 }
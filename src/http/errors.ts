@@ -0,0 +1,170 @@
+/**
+ * HTTP 客户端错误类型
+ */
+
+export interface HttpTimeoutErrorInit {
+  url: string;
+  method: string;
+  /** 实际生效的超时时间（毫秒） */
+  timeoutMs: number;
+  traceId?: string;
+  requestId?: string;
+}
+
+/**
+ * 请求超时（包括上游传入的截止时间已过）
+ *
+ * @example
+ * try {
+ *   await tracedFetch(url, { timeoutMs: 2000 });
+ * } catch (error) {
+ *   if (error instanceof HttpTimeoutError) {
+ *     logger.warn('user-auth timed out', { url: error.url, traceId: error.traceId });
+ *   }
+ * }
+ */
+export class HttpTimeoutError extends Error {
+  readonly url: string;
+  readonly method: string;
+  readonly timeoutMs: number;
+  readonly traceId?: string;
+  readonly requestId?: string;
+
+  constructor(init: HttpTimeoutErrorInit) {
+    super(
+      `${init.method} ${init.url} timed out after ${init.timeoutMs}ms` +
+        (init.traceId ? ` (trace_id=${init.traceId})` : "")
+    );
+    this.name = "HttpTimeoutError";
+    this.url = init.url;
+    this.method = init.method;
+    this.timeoutMs = init.timeoutMs;
+    this.traceId = init.traceId;
+    this.requestId = init.requestId;
+  }
+}
+
+export interface CircuitOpenErrorInit {
+  /** 熔断器名称（通常为下游服务名） */
+  name: string;
+  url: string;
+  method: string;
+  /** 熔断器允许下一次探测的时间（毫秒时间戳） */
+  retryAt: number;
+  traceId?: string;
+}
+
+/**
+ * 熔断器打开时快速失败，请求未发出
+ */
+export class CircuitOpenError extends Error {
+  readonly circuit: string;
+  readonly url: string;
+  readonly method: string;
+  readonly retryAt: number;
+  readonly traceId?: string;
+
+  constructor(init: CircuitOpenErrorInit) {
+    super(
+      `${init.method} ${init.url} rejected: circuit "${init.name}" is open` +
+        (init.traceId ? ` (trace_id=${init.traceId})` : "")
+    );
+    this.name = "CircuitOpenError";
+    this.circuit = init.name;
+    this.url = init.url;
+    this.method = init.method;
+    this.retryAt = init.retryAt;
+    this.traceId = init.traceId;
+  }
+}
+
+export interface HttpErrorInit {
+  status: number;
+  statusText?: string;
+  url: string;
+  method: string;
+  /** 响应体（已截断） */
+  body?: string;
+  /** 下游返回的 `X-Trace-ID`（缺省时为本地 trace_id） */
+  traceId?: string;
+  /** 下游返回的 `X-Request-ID` */
+  requestId?: string;
+  /** 下游返回的 `X-Served-By` */
+  servedBy?: string;
+}
+
+/**
+ * 下游返回非 2xx 响应
+ *
+ * @example
+ * try {
+ *   const user = await authApi.getJson<User>('/users/123');
+ * } catch (error) {
+ *   if (error instanceof HttpError && error.status === 404) {
+ *     return null;
+ *   }
+ *   throw error;
+ * }
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly statusText?: string;
+  readonly url: string;
+  readonly method: string;
+  readonly body?: string;
+  readonly traceId?: string;
+  readonly requestId?: string;
+  readonly servedBy?: string;
+
+  constructor(init: HttpErrorInit) {
+    super(
+      `${init.method} ${init.url} failed with ${init.status}` +
+        (init.statusText ? ` ${init.statusText}` : "") +
+        (init.requestId ? ` (request_id=${init.requestId})` : "")
+    );
+    this.name = "HttpError";
+    this.status = init.status;
+    this.statusText = init.statusText;
+    this.url = init.url;
+    this.method = init.method;
+    this.body = init.body;
+    this.traceId = init.traceId;
+    this.requestId = init.requestId;
+    this.servedBy = init.servedBy;
+  }
+}
+
+export interface ResponseValidationErrorInit {
+  status: number;
+  url: string;
+  method: string;
+  traceId?: string;
+  requestId?: string;
+  /** JSON 解析或 schema 校验抛出的原始异常 */
+  cause: unknown;
+}
+
+/**
+ * 响应不是合法 JSON 或未通过 schema 校验
+ */
+export class ResponseValidationError extends Error {
+  readonly status: number;
+  readonly url: string;
+  readonly method: string;
+  readonly traceId?: string;
+  readonly requestId?: string;
+
+  constructor(init: ResponseValidationErrorInit) {
+    super(
+      `${init.method} ${init.url} returned an invalid response: ` +
+        (init.cause instanceof Error ? init.cause.message : String(init.cause)),
+      { cause: init.cause }
+    );
+    this.name = "ResponseValidationError";
+    this.status = init.status;
+    this.url = init.url;
+    this.method = init.method;
+    this.traceId = init.traceId;
+    this.requestId = init.requestId;
+  }
+}
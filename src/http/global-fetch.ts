@@ -0,0 +1,41 @@
+/**
+ * 全局 fetch 插桩状态（包内部使用）
+ *
+ * 状态挂在 globalThis 上，各入口 bundle 共享；
+ * tracedFetch 发出的请求带有标记，插桩后的 fetch 直接透传，避免再次记录
+ */
+
+export interface GlobalFetchSlot {
+  original: typeof fetch;
+  instrumented: typeof fetch;
+  uninstall: () => void;
+}
+
+const SLOT_KEY = Symbol.for("@optima-chat/observability/global-fetch");
+
+/**
+ * tracedFetch 在传给 fetch 的 init 上设置的标记
+ */
+export const TRACED_REQUEST = Symbol.for("@optima-chat/observability/traced-request");
+
+export function isTracedRequest(init: RequestInit | undefined): boolean {
+  return (init as { [TRACED_REQUEST]?: boolean } | undefined)?.[TRACED_REQUEST] === true;
+}
+
+export function getGlobalFetchSlot(): GlobalFetchSlot | undefined {
+  return (globalThis as { [SLOT_KEY]?: GlobalFetchSlot })[SLOT_KEY];
+}
+
+export function setGlobalFetchSlot(slot: GlobalFetchSlot | undefined): void {
+  (globalThis as { [SLOT_KEY]?: GlobalFetchSlot })[SLOT_KEY] = slot;
+}
+
+/**
+ * 获取未插桩的 fetch
+ *
+ * 供 span 导出等不应被记录的内部请求使用；插桩后 globalThis.fetch 可能又被其他 SDK 包装，
+ * 因此直接使用插桩前保存的 fetch
+ */
+export function getUninstrumentedFetch(): typeof fetch {
+  return getGlobalFetchSlot()?.original ?? globalThis.fetch;
+}
@@ -1 +1,9 @@
+import "../tracing/node";
+
 export * from "./client";
+export * from "./errors";
+export * from "./retry";
+export * from "./circuit-breaker";
+export * from "./cache";
+export * from "./instrument";
+export * from "./undici";
@@ -0,0 +1,112 @@
+/**
+ * 全局 fetch 自动插桩模块
+ *
+ * 第三方 SDK 直接调用 `globalThis.fetch`，无法改为 tracedFetch；
+ * 插桩后发往内部服务的请求自动注入追踪 header 并记录 client span
+ */
+
+import type { Logger } from "../logging/logger";
+import { tracedFetch } from "./client";
+import { getGlobalFetchSlot, isTracedRequest, setGlobalFetchSlot } from "./global-fetch";
+
+/**
+ * 需要插桩的 host
+ *
+ * 字符串匹配 hostname 或 host（含端口），`*.` 开头匹配子域名；正则匹配 host
+ */
+export type HostMatcher = string | RegExp;
+
+export interface FetchInstrumentationOptions {
+  /** 内部服务 host 白名单，只有匹配的请求会注入追踪 header（避免泄露到第三方） */
+  hosts: HostMatcher[] | ((url: URL) => boolean);
+  /** 记录失败与慢请求使用的 logger（默认 getLogger()） */
+  logger?: Logger;
+  /** 超过该耗时（毫秒）记录慢请求日志（默认 1000，0 表示不记录） */
+  slowThresholdMs?: number;
+}
+
+/**
+ * 创建 host 白名单匹配函数
+ */
+export function createHostMatcher(
+  hosts: FetchInstrumentationOptions["hosts"]
+): (url: URL) => boolean {
+  if (typeof hosts === "function") {
+    return hosts;
+  }
+  return (url) =>
+    hosts.some((matcher) => {
+      if (matcher instanceof RegExp) {
+        return matcher.test(url.host);
+      }
+      const pattern = matcher.toLowerCase();
+      if (pattern.startsWith("*.")) {
+        return url.hostname.endsWith(pattern.slice(1));
+      }
+      return url.hostname === pattern || url.host === pattern;
+    });
+}
+
+function toUrl(input: string | URL | Request): URL | undefined {
+  try {
+    return new URL(input instanceof Request ? input.url : String(input));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 插桩 `globalThis.fetch`
+ *
+ * 匹配白名单的请求改由 tracedFetch 发出（注入追踪 header、记录 client span 与失败 / 慢请求日志），
+ * 其余请求原样透传。重复调用时先卸载之前的插桩。
+ *
+ * @returns 卸载函数，恢复原始 fetch
+ *
+ * @example
+ * // instrumentation.ts
+ * import { instrumentGlobalFetch } from '@optima/core/http';
+ *
+ * export function register() {
+ *   instrumentGlobalFetch({ hosts: ['user-auth', '*.optima.internal'] });
+ * }
+ */
+export function instrumentGlobalFetch(
+  options: FetchInstrumentationOptions
+): () => void {
+  getGlobalFetchSlot()?.uninstall();
+
+  const original = globalThis.fetch;
+  const matches = createHostMatcher(options.hosts);
+  let active = true;
+
+  const instrumented = ((input: string | URL | Request, init?: RequestInit) => {
+    // tracedFetch 发出的请求已记录，直接透传
+    const url = active && !isTracedRequest(init) ? toUrl(input) : undefined;
+    if (!url || !matches(url)) {
+      return original(input, init);
+    }
+    return tracedFetch(input, {
+      ...init,
+      fetch: original,
+      logger: options.logger,
+      slowThresholdMs: options.slowThresholdMs,
+    });
+  }) as typeof fetch;
+
+  const uninstall = () => {
+    if (!active) return;
+    active = false;
+    // 之后又被其他代码包装时不能直接还原，插桩函数改为透传
+    if (globalThis.fetch === instrumented) {
+      globalThis.fetch = original;
+    }
+    if (getGlobalFetchSlot()?.instrumented === instrumented) {
+      setGlobalFetchSlot(undefined);
+    }
+  };
+
+  setGlobalFetchSlot({ original, instrumented, uninstall });
+  globalThis.fetch = instrumented;
+  return uninstall;
+}
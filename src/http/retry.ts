@@ -0,0 +1,117 @@
+/**
+ * HTTP 重试策略模块
+ *
+ * 应对蓝绿切换等场景下内部服务短暂返回的 502 / 503：
+ * 指数退避 + 随机抖动，遵循 `Retry-After`，默认只重试幂等请求
+ */
+
+import { getTraceContext } from "../tracing/context";
+
+export interface RetryOptions {
+  /** 最大尝试次数（含首次请求，默认 3） */
+  maxAttempts?: number;
+  /** 退避基数（毫秒，默认 100），第 n 次重试最多等待 baseDelayMs * 2^(n-1) */
+  baseDelayMs?: number;
+  /** 单次等待上限（毫秒，默认 2000）；`Retry-After` 超过该值时不再重试 */
+  maxDelayMs?: number;
+  /** 触发重试的状态码（默认 429 / 502 / 503 / 504） */
+  retryOn?: number[];
+  /** 是否重试网络异常与超时（默认 true） */
+  retryOnNetworkError?: boolean;
+  /**
+   * 幂等键 header（默认 "Idempotency-Key"）
+   *
+   * POST / PATCH 仅在请求带有该 header 时重试
+   */
+  idempotencyKeyHeader?: string;
+}
+
+export type RetryPolicy = Required<RetryOptions>;
+
+export const DEFAULT_RETRY_STATUSES = [429, 502, 503, 504];
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * 合并默认值得到完整的重试策略
+ */
+export function resolveRetryPolicy(options: RetryOptions = {}): RetryPolicy {
+  return {
+    maxAttempts: Math.max(1, options.maxAttempts ?? 3),
+    baseDelayMs: options.baseDelayMs ?? 100,
+    maxDelayMs: options.maxDelayMs ?? 2000,
+    retryOn: options.retryOn ?? DEFAULT_RETRY_STATUSES,
+    retryOnNetworkError: options.retryOnNetworkError ?? true,
+    idempotencyKeyHeader: options.idempotencyKeyHeader ?? "Idempotency-Key",
+  };
+}
+
+/**
+ * 判断请求是否可以安全重试
+ *
+ * 幂等方法可直接重试；其余方法需带幂等键；流式请求体无法重放，不重试
+ */
+export function isRetryableRequest(
+  method: string,
+  headers: Headers,
+  body: RequestInit["body"],
+  policy: RetryPolicy
+): boolean {
+  if (body instanceof ReadableStream) {
+    return false;
+  }
+  return (
+    IDEMPOTENT_METHODS.has(method.toUpperCase()) ||
+    headers.has(policy.idempotencyKeyHeader)
+  );
+}
+
+/**
+ * 解析 `Retry-After`（秒数或 HTTP 日期），返回需等待的毫秒数
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * 计算第 attempt 次重试（从 1 开始）的退避时间（full jitter）
+ */
+export function computeBackoff(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * 计算下一次重试前的等待时间；不应再重试时返回 undefined
+ *
+ * `Retry-After` 优先于退避时间；等待后会超过上游截止时间时不再重试
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  response?: Response
+): number | undefined {
+  const retryAfter = parseRetryAfter(response?.headers.get("Retry-After") ?? null);
+  if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) {
+    return undefined;
+  }
+  const delay = retryAfter ?? computeBackoff(attempt, policy);
+
+  const { deadline } = getTraceContext();
+  if (deadline !== undefined && Date.now() + delay >= deadline) {
+    return undefined;
+  }
+  return delay;
+}
@@ -0,0 +1,157 @@
+/**
+ * 基于 undici diagnostics_channel 的请求插桩（Node.js）
+ *
+ * Node.js 的全局 fetch 由 undici 实现，订阅其诊断通道即可覆盖
+ * 不经过 `globalThis.fetch` 的调用（如 SDK 在模块加载时保存的 fetch 引用、直接使用 undici 的代码）
+ */
+
+import { subscribe, unsubscribe } from "node:diagnostics_channel";
+import { getTraceContext, runWithTraceContext } from "../tracing/context";
+import {
+  getTraceHeaders,
+  REQUEST_ID_HEADER,
+  SERVED_BY_HEADER,
+  TRACE_ID_HEADER,
+} from "../tracing/middleware";
+import { normalizeRoutePath } from "../tracing/route";
+import { contextWithSpan, startSpan, type Span } from "../tracing/span";
+import { createHostMatcher, type FetchInstrumentationOptions } from "./instrument";
+
+export type UndiciInstrumentationOptions = Pick<FetchInstrumentationOptions, "hosts">;
+
+// undici 诊断消息中用到的字段
+interface UndiciRequest {
+  origin: string | URL;
+  path: string;
+  method: string;
+  headers: string[] | string;
+  addHeader(name: string, value: string): unknown;
+}
+
+interface UndiciResponse {
+  statusCode: number;
+  headers: Array<Buffer | string>;
+}
+
+function hasHeader(headers: UndiciRequest["headers"], name: string): boolean {
+  const lower = name.toLowerCase();
+  if (Array.isArray(headers)) {
+    return headers.some(
+      (value, index) => index % 2 === 0 && String(value).toLowerCase() === lower
+    );
+  }
+  return typeof headers === "string" && headers.toLowerCase().includes(`${lower}:`);
+}
+
+function getResponseHeader(
+  headers: UndiciResponse["headers"],
+  name: string
+): string | undefined {
+  const lower = name.toLowerCase();
+  for (let i = 0; i < headers.length - 1; i += 2) {
+    if (String(headers[i]).toLowerCase() === lower) {
+      return String(headers[i + 1]);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 订阅 undici 诊断通道插桩出站请求
+ *
+ * 匹配白名单且在追踪上下文中的请求注入追踪 header 并记录 client span；
+ * 已带 `X-Trace-ID` 的请求（tracedFetch 发出）不重复处理
+ *
+ * @returns 卸载函数，取消订阅
+ *
+ * @example
+ * import { instrumentUndici } from '@optima/core/http';
+ *
+ * const uninstall = instrumentUndici({ hosts: ['user-auth', '*.optima.internal'] });
+ */
+export function instrumentUndici(options: UndiciInstrumentationOptions): () => void {
+  const matches = createHostMatcher(options.hosts);
+  const spans = new WeakMap<object, Span>();
+
+  const onCreate = (message: unknown) => {
+    const { request } = message as { request: UndiciRequest };
+    if (!getTraceContext().traceId || hasHeader(request.headers, TRACE_ID_HEADER)) {
+      return;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(request.path, request.origin);
+    } catch {
+      return;
+    }
+    if (!matches(url)) return;
+
+    const method = request.method.toUpperCase();
+    const span = startSpan(`HTTP ${method}`, {
+      kind: "client",
+      attributes: {
+        "http.method": method,
+        "http.url": url.href,
+        "http.host": url.host,
+        "http.route": normalizeRoutePath(url.pathname),
+      },
+    });
+    spans.set(request, span);
+
+    // client span 即下游 server span 的父 span
+    const traceHeaders = runWithTraceContext(contextWithSpan(span), getTraceHeaders);
+    for (const [key, value] of Object.entries(traceHeaders)) {
+      request.addHeader(key, value);
+    }
+  };
+
+  const onHeaders = (message: unknown) => {
+    const { request, response } = message as {
+      request: object;
+      response: UndiciResponse;
+    };
+    const span = spans.get(request);
+    if (!span) return;
+
+    const size = Number(getResponseHeader(response.headers, "Content-Length"));
+    span.setAttributes({
+      "http.status_code": response.statusCode,
+      "http.response_content_length": Number.isFinite(size) ? size : undefined,
+      "upstream.request_id": getResponseHeader(response.headers, REQUEST_ID_HEADER),
+      "upstream.served_by": getResponseHeader(response.headers, SERVED_BY_HEADER),
+    });
+    if (response.statusCode >= 500) {
+      span.setStatus("error");
+    }
+  };
+
+  // 响应体读取完毕
+  const onTrailers = (message: unknown) => {
+    const { request } = message as { request: object };
+    spans.get(request)?.end();
+    spans.delete(request);
+  };
+
+  const onError = (message: unknown) => {
+    const { request, error } = message as { request: object; error: unknown };
+    const span = spans.get(request);
+    if (!span) return;
+    span.recordException(error);
+    span.setStatus("error", error instanceof Error ? error.message : String(error));
+    span.end();
+    spans.delete(request);
+  };
+
+  subscribe("undici:request:create", onCreate);
+  subscribe("undici:request:headers", onHeaders);
+  subscribe("undici:request:trailers", onTrailers);
+  subscribe("undici:request:error", onError);
+
+  return () => {
+    unsubscribe("undici:request:create", onCreate);
+    unsubscribe("undici:request:headers", onHeaders);
+    unsubscribe("undici:request:trailers", onTrailers);
+    unsubscribe("undici:request:error", onError);
+  };
+}
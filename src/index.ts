@@ -67,35 +67,213 @@ export {
   type LogLevel,
   type LogEntry,
   type LoggerOptions,
+  type Logger,
 } from "./logging";
 
 // Tracing
 export {
   generateTraceId,
   generateRequestId,
+  generateSpanId,
   parseTraceId,
   getTraceContext,
   getTraceId,
   getRequestId,
   getParentSpanId,
+  getSpanId,
+  getActiveSpan,
+  startSpan,
+  endSpan,
+  withSpan,
+  contextWithSpan,
+  addSpanProcessor,
+  removeSpanProcessor,
   runWithTraceContext,
+  captureTraceContext,
+  restoreTraceContext,
+  bindTraceContext,
+  bindEmitter,
+  bindAsyncIterable,
+  bindReadableStream,
   parseTraceContextFromHeaders,
+  parseTraceparent,
+  formatTraceparent,
+  toW3CTraceId,
+  fromW3CTraceId,
+  toW3CSpanId,
   withTracing,
   getTraceHeaders,
   addTracingHeaders,
+  buildTracingHeaders,
   TRACE_ID_HEADER,
   REQUEST_ID_HEADER,
   PARENT_SPAN_ID_HEADER,
   DEPLOYMENT_ID_HEADER,
   RESPONSE_TIME_HEADER,
   SERVED_BY_HEADER,
+  REQUEST_TIMEOUT_HEADER,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  TRACE_FLAG_SAMPLED,
+  SAMPLED_HEADER,
+  createSampler,
+  createRuleSampler,
+  BAGGAGE_HEADER,
+  BAGGAGE_MAX_MEMBERS,
+  BAGGAGE_MAX_BYTES,
+  parseBaggage,
+  formatBaggage,
+  getBaggage,
+  getBaggageValue,
+  withBaggage,
+  createInboundTraceContext,
+  SERVER_TIMING_HEADER,
+  recordServerTiming,
+  startServerTimer,
+  formatServerTiming,
+  isServerTimingEnabled,
+  isAsyncContextSupported,
+  installContextStorage,
+  serializeTraceContext,
+  deserializeTraceContext,
+  withJobTracing,
+  JOB_TRACE_CONTEXT_KEY,
+  logAccess,
+  normalizeLogPath,
+  parseUpstreamTraceContext,
+  sanitizeTraceId,
+  sanitizeSpanId,
+  isValidTraceState,
+  createTrustedSourceMatcher,
+  getRequestSourceAddress,
+  DEFAULT_TRACE_ID_MAX_LENGTH,
+  DEFAULT_MIN_UPSTREAM_TIMEOUT_MS,
+  normalizeRoutePath,
+  inferRouteFromParams,
+  resolveRoute,
+  getRouteParams,
+  isStreamingResponse,
+  traceResponseStream,
   type TraceContext,
   type TracingOptions,
+  type ParseTraceContextOptions,
+  type UpstreamDeadlineOptions,
+  type Traceparent,
+  type TraceHeaderPrecedence,
+  type Span,
+  type SpanKind,
+  type SpanStatus,
+  type SpanStatusCode,
+  type SpanEvent,
+  type SpanAttributes,
+  type SpanAttributeValue,
+  type StartSpanOptions,
+  type SpanProcessor,
+  type Sampler,
+  type SamplerConfig,
+  type SamplingInput,
+  type SamplingRule,
+  type RuleSamplerOptions,
+  type Baggage,
+  type InboundRequestInfo,
+  type TracingErrorInfo,
+  type TracingErrorMapping,
+  type ServerTimingEntry,
+  type ServerTimingOptions,
+  type TracingHeaderOptions,
+  type ContextStorage,
+  type SerializedTraceContext,
+  type JobTracingOptions,
+  type AccessLogOptions,
+  type AccessLogEntry,
+  type StatusClass,
+  type InvalidTraceIdPolicy,
+  type TraceHeaderValidationOptions,
+  type SanitizedTraceId,
+  type RequestSourceInfo,
+  type RequestSourceOptions,
+  type RouteParams,
+  type RouteOptions,
+  type StreamStats,
 } from "./tracing";
 
 // HTTP
 export {
   tracedFetch,
   createTracedClient,
+  DEFAULT_SLOW_THRESHOLD_MS,
+  HttpTimeoutError,
+  DEFAULT_RETRY_STATUSES,
+  resolveRetryPolicy,
+  parseRetryAfter,
+  computeBackoff,
+  CircuitOpenError,
+  HttpError,
+  ResponseValidationError,
+  createCircuitBreaker,
+  getCircuitBreakerSnapshots,
+  createHttpCache,
+  parseCacheControl,
+  instrumentGlobalFetch,
+  instrumentUndici,
+  createHostMatcher,
   type TracedFetchOptions,
+  type TracedClientOptions,
+  type TracedRequestOptions,
+  type HttpTimeoutErrorInit,
+  type RetryOptions,
+  type RetryPolicy,
+  type CircuitOpenErrorInit,
+  type HttpErrorInit,
+  type ResponseValidationErrorInit,
+  type ResponseValidator,
+  type JsonRequestOptions,
+  type TracedClientRequest,
+  type TracedClientInterceptor,
+  type HttpCache,
+  type HttpCacheOptions,
+  type HttpCacheStats,
+  type HttpCacheStatus,
+  type HttpCacheMode,
+  type CacheControlDirectives,
+  type HostMatcher,
+  type FetchInstrumentationOptions,
+  type UndiciInstrumentationOptions,
+  type CircuitState,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitBreakerSnapshot,
 } from "./http";
+
+// Adapters
+export {
+  withNodeTracing,
+  startNodeRequestTracing,
+  toFetchHeaders,
+  createExpressTracingMiddleware,
+  createFastifyTracingPlugin,
+  withPagesApiTracing,
+  withActionTracing,
+  type NodeTracingOptions,
+  type ActionTracingOptions,
+  type ExpressTracingMiddleware,
+  type FastifyTracingPlugin,
+} from "./adapters";
+
+// Exporter
+export {
+  createOtlpHttpExporter,
+  createBatchSpanProcessor,
+  configureSpanExport,
+  getSpanExportStats,
+  shutdownSpanExport,
+  buildOtlpRequest,
+  toOtlpSpan,
+  type SpanExporter,
+  type ExportResult,
+  type OtlpExporterOptions,
+  type BatchSpanProcessor,
+  type BatchSpanProcessorOptions,
+  type BatchSpanProcessorStats,
+  type SpanExportOptions,
+} from "./exporter";
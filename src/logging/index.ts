@@ -1 +1,3 @@
+import "../tracing/node";
+
 export * from "./logger";
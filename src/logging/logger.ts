@@ -18,6 +18,12 @@ export interface LogEntry {
   traceId?: string;
   requestId?: string;
   parentSpanId?: string;
+  spanId?: string;
+  sampled?: boolean;
+  /** 上游传入但未通过校验的 trace_id */
+  upstreamTraceId?: string;
+  /** 通过 LoggerOptions.baggageKeys 选出的 baggage 条目 */
+  baggage?: Record<string, string>;
   message: string;
   extra?: Record<string, unknown>;
   exception?: {
@@ -31,6 +37,10 @@ export interface LoggerOptions {
   serviceName: string;
   format?: "json" | "text";
   level?: LogLevel;
+  /** 被采样请求使用的日志级别（如 "debug"），用于只对采样请求输出详细日志 */
+  sampledLevel?: LogLevel;
+  /** 需要写入日志的 baggage key（默认不写入） */
+  baggageKeys?: string[];
 }
 
 const LOG_LEVELS: Record<LogLevel, number> = {
@@ -48,12 +58,19 @@ export function createLogger(options: LoggerOptions) {
     serviceName,
     format = process.env.LOG_FORMAT === "text" ? "text" : "json",
     level = (process.env.LOG_LEVEL as LogLevel) || "info",
+    sampledLevel,
+    baggageKeys = [],
   } = options;
 
   const minLevel = LOG_LEVELS[level];
+  const sampledMinLevel = sampledLevel
+    ? Math.min(LOG_LEVELS[sampledLevel], minLevel)
+    : minLevel;
 
   function shouldLog(logLevel: LogLevel): boolean {
-    return LOG_LEVELS[logLevel] >= minLevel;
+    const threshold =
+      getTraceContext().sampled === true ? sampledMinLevel : minLevel;
+    return LOG_LEVELS[logLevel] >= threshold;
   }
 
   function formatEntry(entry: LogEntry): string {
@@ -119,6 +136,30 @@ export function createLogger(options: LoggerOptions) {
       entry.parentSpanId = traceContext.parentSpanId;
     }
 
+    if (traceContext.spanId) {
+      entry.spanId = traceContext.spanId;
+    }
+
+    if (traceContext.sampled !== undefined) {
+      entry.sampled = traceContext.sampled;
+    }
+
+    if (traceContext.upstreamTraceId) {
+      entry.upstreamTraceId = traceContext.upstreamTraceId;
+    }
+
+    if (baggageKeys.length > 0 && traceContext.baggage) {
+      const baggage: Record<string, string> = {};
+      for (const key of baggageKeys) {
+        if (traceContext.baggage[key] !== undefined) {
+          baggage[key] = traceContext.baggage[key];
+        }
+      }
+      if (Object.keys(baggage).length > 0) {
+        entry.baggage = baggage;
+      }
+    }
+
     if (extra && Object.keys(extra).length > 0) {
       entry.extra = extra;
     }
@@ -167,20 +208,25 @@ export function createLogger(options: LoggerOptions) {
   };
 }
 
-// 默认 logger（需要先配置）
-let defaultLogger: ReturnType<typeof createLogger> | null = null;
+export type Logger = ReturnType<typeof createLogger>;
+
+// 默认 logger（需要先配置），挂在 globalThis 上，各入口 bundle 共享
+const DEFAULT_LOGGER_KEY = Symbol.for("@optima-chat/observability/default-logger");
+
+type DefaultLoggerSlot = { [DEFAULT_LOGGER_KEY]?: ReturnType<typeof createLogger> };
 
 /**
  * 配置默认 logger
  */
 export function configureLogger(options: LoggerOptions): void {
-  defaultLogger = createLogger(options);
+  (globalThis as DefaultLoggerSlot)[DEFAULT_LOGGER_KEY] = createLogger(options);
 }
 
 /**
  * 获取默认 logger
  */
 export function getLogger(): ReturnType<typeof createLogger> {
+  const defaultLogger = (globalThis as DefaultLoggerSlot)[DEFAULT_LOGGER_KEY];
   if (!defaultLogger) {
     // 返回一个空操作的 logger
     return {
@@ -0,0 +1,369 @@
+/**
+ * fetch 测试替身
+ *
+ * 替换 `globalThis.fetch`，按路由返回预设响应，并记录每个请求（含追踪 header），
+ * 用于测试 tracedFetch / createTracedClient 的调用方
+ */
+
+import {
+  PARENT_SPAN_ID_HEADER,
+  REQUEST_TIMEOUT_HEADER,
+  TRACE_ID_HEADER,
+} from "../tracing/middleware";
+import { TRACEPARENT_HEADER } from "../tracing/w3c";
+
+/**
+ * 路由匹配
+ *
+ * 字符串形如 `"GET /users/:id"`、`"/users/*"` 或 `"POST http://user-auth/users"`：
+ * 方法可省略；以 `/` 开头时只匹配 pathname，否则匹配 origin + pathname；
+ * `:name` 匹配一段路径，`*` 匹配任意剩余部分。查询参数不参与匹配
+ */
+export type RouteMatcher = string | RegExp | ((request: RecordedRequest) => boolean);
+
+export interface StubResponseInit {
+  status?: number;
+  headers?: Record<string, string>;
+  /** 对象按 JSON 序列化，字符串原样返回 */
+  body?: unknown;
+  /** 延迟返回（毫秒），用于测试超时 */
+  delayMs?: number;
+  /** 模拟网络异常：fetch 以该异常 reject */
+  error?: unknown;
+}
+
+export type StubResponder =
+  | Response
+  | StubResponseInit
+  | ((
+      request: RecordedRequest,
+      params: Record<string, string>
+    ) => Response | StubResponseInit | Promise<Response | StubResponseInit>);
+
+export interface RecordedRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+  /** 文本请求体（无请求体时为 undefined） */
+  body?: string;
+  /** 请求携带的追踪 header */
+  trace: {
+    traceId?: string;
+    parentSpanId?: string;
+    traceparent?: string;
+    timeoutMs?: number;
+  };
+  /** 是否命中路由（或 fixture） */
+  matched: boolean;
+}
+
+export interface FetchStubOptions {
+  /**
+   * 未命中路由时的行为（默认 "error"）
+   *
+   * error：fetch reject；404：返回 404；passthrough：使用安装前的 fetch 发出真实请求
+   */
+  onUnmatched?: "error" | "404" | "passthrough";
+}
+
+/**
+ * fixture 或其他扩展的兜底处理：返回 undefined 表示未命中
+ */
+export type FallbackHandler = (
+  request: RecordedRequest,
+  input: string | URL | Request,
+  init: RequestInit | undefined
+) => Promise<Response | undefined>;
+
+export interface FetchStub {
+  /** 传给被测代码或 vi.stubGlobal 的 fetch 函数 */
+  readonly fetch: typeof fetch;
+  /** 所有请求（按发出顺序） */
+  readonly requests: RecordedRequest[];
+  /** 未命中路由的请求 */
+  readonly unmatched: RecordedRequest[];
+  /** 注册路由，先注册的优先 */
+  on(matcher: RouteMatcher, responder: StubResponder): FetchStub;
+  /** 注册只命中一次的路由 */
+  once(matcher: RouteMatcher, responder: StubResponder): FetchStub;
+  /** 命中某个路由的请求 */
+  calls(matcher: RouteMatcher): RecordedRequest[];
+  /** 替换 globalThis.fetch，返回恢复函数 */
+  install(): () => void;
+  /** 恢复 install 前的 globalThis.fetch */
+  restore(): void;
+  /** 清空请求记录（保留路由） */
+  reset(): void;
+  /** 存在未命中路由的请求时抛出异常 */
+  assertNoUnmatched(): void;
+  /** 存在从未命中的路由时抛出异常（once 路由需恰好命中一次） */
+  assertAllRoutesCalled(): void;
+  /** 设置兜底处理（fixture 回放等） */
+  setFallback(handler: FallbackHandler | undefined): void;
+}
+
+interface Route {
+  matcher: RouteMatcher;
+  responder: StubResponder;
+  once: boolean;
+  calls: number;
+}
+
+/**
+ * 将字符串路由编译为匹配函数，返回路径参数
+ */
+function compileRoute(
+  pattern: string
+): (request: RecordedRequest) => Record<string, string> | undefined {
+  const match = /^([A-Z]+)\s+(.+)$/.exec(pattern.trim());
+  const method = match?.[1];
+  const target = (match?.[2] ?? pattern).trim();
+  const pathOnly = target.startsWith("/");
+
+  const names: string[] = [];
+  const source = target
+    .split("*")
+    .map((part) =>
+      part
+        .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+        // 只替换紧跟 `/` 的 `:name`，origin 中的端口号（`host:8000`）保持原样
+        .replace(/\/:(\w+)/g, (_, name: string) => {
+          names.push(name);
+          return "/([^/]+)";
+        })
+    )
+    .join(".*");
+  const regex = new RegExp(`^${source}$`);
+
+  return (request) => {
+    if (method && request.method !== method) return undefined;
+    const subject = pathOnly
+      ? request.url.pathname
+      : `${request.url.origin}${request.url.pathname}`;
+    const result = regex.exec(subject);
+    if (!result) return undefined;
+    return Object.fromEntries(
+      names.map((name, i) => [name, decodeURIComponent(result[i + 1])])
+    );
+  };
+}
+
+function matchRoute(
+  matcher: RouteMatcher,
+  request: RecordedRequest
+): Record<string, string> | undefined {
+  if (typeof matcher === "function") {
+    return matcher(request) ? {} : undefined;
+  }
+  if (matcher instanceof RegExp) {
+    return matcher.test(request.url.href) ? {} : undefined;
+  }
+  return compileRoute(matcher)(request);
+}
+
+/**
+ * 等待指定时间，请求被取消（如 tracedFetch 超时）时以 abort reason reject
+ */
+function delay(ms: number, signal: AbortSignal | null | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+async function toResponse(
+  init: Response | StubResponseInit,
+  signal: AbortSignal | null | undefined
+): Promise<Response> {
+  if (init instanceof Response) {
+    return init;
+  }
+  if (init.delayMs) {
+    await delay(init.delayMs, signal);
+  }
+  if (init.error !== undefined) {
+    throw init.error;
+  }
+
+  const headers = new Headers(init.headers);
+  let body: string | null = null;
+  if (typeof init.body === "string") {
+    body = init.body;
+  } else if (init.body !== undefined) {
+    body = JSON.stringify(init.body);
+    if (!headers.has("Content-Type")) {
+      headers.set("Content-Type", "application/json");
+    }
+  }
+  return new Response(body, { status: init.status ?? 200, headers });
+}
+
+async function recordRequest(
+  input: string | URL | Request,
+  init: RequestInit | undefined
+): Promise<RecordedRequest> {
+  const request = new Request(input, init);
+  const body = request.body ? await request.text() : undefined;
+  const headers = request.headers;
+  const timeout = headers.get(REQUEST_TIMEOUT_HEADER);
+
+  return {
+    method: request.method,
+    url: new URL(request.url),
+    headers,
+    body,
+    trace: {
+      traceId: headers.get(TRACE_ID_HEADER) ?? undefined,
+      parentSpanId: headers.get(PARENT_SPAN_ID_HEADER) ?? undefined,
+      traceparent: headers.get(TRACEPARENT_HEADER) ?? undefined,
+      timeoutMs: timeout !== null ? Number(timeout) : undefined,
+    },
+    matched: false,
+  };
+}
+
+function describeRequest(request: RecordedRequest): string {
+  return `${request.method} ${request.url.href}`;
+}
+
+/**
+ * 创建 fetch 测试替身
+ *
+ * @example
+ * import { createFetchStub } from '@optima/core/testing';
+ *
+ * const stub = createFetchStub();
+ * stub.on('GET /users/:id', (_req, { id }) => ({ body: { id } }));
+ * stub.install();
+ *
+ * await runWithTraceContext({ traceId: 'trace-123' }, () => api.getJson('/users/42'));
+ *
+ * expect(stub.requests[0].trace.traceId).toBe('trace-123');
+ * stub.assertNoUnmatched();
+ * stub.restore();
+ */
+export function createFetchStub(options: FetchStubOptions = {}): FetchStub {
+  const { onUnmatched = "error" } = options;
+  const routes: Route[] = [];
+  const requests: RecordedRequest[] = [];
+  const unmatched: RecordedRequest[] = [];
+  let fallback: FallbackHandler | undefined;
+  let original: typeof fetch | undefined;
+  // passthrough 使用创建时的 fetch，避免 stub 通过 vi.stubGlobal 安装时递归调用自身
+  const initialFetch = globalThis.fetch;
+
+  const stubFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    // 读取请求体前先复制，passthrough 时原请求仍可使用
+    const recorded = await recordRequest(
+      input instanceof Request ? input.clone() : input,
+      init
+    );
+    requests.push(recorded);
+
+    for (const route of routes) {
+      if (route.once && route.calls > 0) continue;
+      const params = matchRoute(route.matcher, recorded);
+      if (!params) continue;
+
+      route.calls++;
+      recorded.matched = true;
+      const responder =
+        typeof route.responder === "function"
+          ? await route.responder(recorded, params)
+          : route.responder;
+      // 同一个 Response 对象只能读取一次，多次命中时返回副本
+      return toResponse(
+        responder instanceof Response ? responder.clone() : responder,
+        init?.signal ?? (input instanceof Request ? input.signal : undefined)
+      );
+    }
+
+    const fallbackResponse = await fallback?.(recorded, input, init);
+    if (fallbackResponse) {
+      recorded.matched = true;
+      return fallbackResponse;
+    }
+
+    unmatched.push(recorded);
+    if (onUnmatched === "404") {
+      return new Response(`No stub for ${describeRequest(recorded)}`, { status: 404 });
+    }
+    if (onUnmatched === "passthrough") {
+      return (original ?? initialFetch)(input, init);
+    }
+    throw new Error(`Unmatched fetch: ${describeRequest(recorded)}`);
+  }) as typeof fetch;
+
+  const register = (matcher: RouteMatcher, responder: StubResponder, once: boolean) => {
+    routes.push({ matcher, responder, once, calls: 0 });
+    return stub;
+  };
+
+  const stub: FetchStub = {
+    fetch: stubFetch,
+    requests,
+    unmatched,
+
+    on: (matcher, responder) => register(matcher, responder, false),
+
+    once: (matcher, responder) => register(matcher, responder, true),
+
+    calls: (matcher) =>
+      requests.filter((request) => matchRoute(matcher, request) !== undefined),
+
+    install() {
+      if (!original) {
+        original = globalThis.fetch;
+        globalThis.fetch = stubFetch;
+      }
+      return () => stub.restore();
+    },
+
+    restore() {
+      if (original && globalThis.fetch === stubFetch) {
+        globalThis.fetch = original;
+      }
+      original = undefined;
+    },
+
+    reset() {
+      requests.length = 0;
+      unmatched.length = 0;
+      for (const route of routes) route.calls = 0;
+    },
+
+    assertNoUnmatched() {
+      if (unmatched.length > 0) {
+        throw new Error(
+          `Unmatched fetch calls:\n${unmatched.map((r) => `  ${describeRequest(r)}`).join("\n")}`
+        );
+      }
+    },
+
+    assertAllRoutesCalled() {
+      const uncalled = routes.filter((route) => route.calls === 0);
+      if (uncalled.length > 0) {
+        throw new Error(
+          `Routes never called:\n${uncalled.map((r) => `  ${String(r.matcher)}`).join("\n")}`
+        );
+      }
+    },
+
+    setFallback(handler) {
+      fallback = handler;
+    },
+  };
+
+  return stub;
+}
@@ -0,0 +1,147 @@
+/**
+ * fetch fixture 录制与回放
+ *
+ * 录制模式下请求真实服务并保存响应，回放模式下从 JSON 文件读取响应，
+ * 测试无需依赖下游服务即可复现真实的响应内容
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type { FetchStub, RecordedRequest } from "./fetch-stub";
+
+export interface FetchFixture {
+  method: string;
+  /** 完整 URL（含查询参数） */
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  /** 响应体字节（base64），二进制响应也可原样回放 */
+  body: string;
+}
+
+export interface FixtureOptions {
+  /** fixture 文件路径（JSON） */
+  path: string;
+  /**
+   * record：请求真实服务并记录响应，调用 save() 写入文件；
+   * replay：从文件读取响应，未录制的请求按 stub 的 onUnmatched 处理
+   */
+  mode: "record" | "replay";
+  /**
+   * 录制时使用的 fetch（默认为调用 useFixtures 时的 globalThis.fetch）
+   *
+   * stub 已安装时 globalThis.fetch 即 stub 自身，必须显式传入
+   */
+  fetch?: typeof fetch;
+}
+
+export interface FixtureSession {
+  /** 已录制或已加载的 fixture */
+  readonly fixtures: FetchFixture[];
+  /** 写入 fixture 文件（仅 record 模式有效） */
+  save(): void;
+  /** 移除 stub 上的 fixture 处理 */
+  detach(): void;
+}
+
+// 每次请求都会变化或不应落盘的响应 header；
+// fetch 已解压响应体，编码与长度 header 与记录的字节不再对应
+const IGNORED_HEADERS = new Set([
+  "date",
+  "set-cookie",
+  "connection",
+  "keep-alive",
+  "content-encoding",
+  "content-length",
+  "transfer-encoding",
+]);
+
+function toFixtureHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    if (!IGNORED_HEADERS.has(key)) {
+      result[key] = value;
+    }
+  });
+  return result;
+}
+
+function isSameRequest(fixture: FetchFixture, request: RecordedRequest): boolean {
+  return fixture.method === request.method && fixture.url === request.url.href;
+}
+
+/**
+ * 为 fetch stub 启用 fixture 录制或回放
+ *
+ * 回放时同一请求的多个 fixture 按录制顺序依次返回，用完后重复返回最后一个；
+ * stub 上注册的路由优先于 fixture
+ *
+ * @example
+ * import { createFetchStub, useFixtures } from '@optima/core/testing';
+ *
+ * const stub = createFetchStub();
+ * const fixtures = useFixtures(stub, {
+ *   path: 'tests/fixtures/user-auth.json',
+ *   mode: process.env.RECORD_FIXTURES ? 'record' : 'replay',
+ * });
+ * stub.install();
+ *
+ * // ... 执行测试
+ *
+ * fixtures.save();
+ * stub.restore();
+ */
+export function useFixtures(stub: FetchStub, options: FixtureOptions): FixtureSession {
+  const { path, mode } = options;
+
+  if (mode === "record") {
+    // 创建时确定真实 fetch，避免 stub 安装后录制请求递归调用自身
+    const realFetch = options.fetch ?? globalThis.fetch;
+    if (realFetch === stub.fetch) {
+      throw new Error("useFixtures: stub is already installed, pass options.fetch to record");
+    }
+    const fixtures: FetchFixture[] = [];
+
+    stub.setFallback(async (request, input, init) => {
+      const response = await realFetch(input, init);
+      fixtures.push({
+        method: request.method,
+        url: request.url.href,
+        status: response.status,
+        headers: toFixtureHeaders(response.headers),
+        body: Buffer.from(await response.clone().arrayBuffer()).toString("base64"),
+      });
+      return response;
+    });
+
+    return {
+      fixtures,
+      save() {
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, `${JSON.stringify(fixtures, null, 2)}\n`);
+      },
+      detach: () => stub.setFallback(undefined),
+    };
+  }
+
+  const fixtures = JSON.parse(readFileSync(path, "utf-8")) as FetchFixture[];
+  const served = new Set<FetchFixture>();
+
+  stub.setFallback(async (request) => {
+    const candidates = fixtures.filter((fixture) => isSameRequest(fixture, request));
+    const fixture =
+      candidates.find((candidate) => !served.has(candidate)) ?? candidates.at(-1);
+    if (!fixture) return undefined;
+
+    served.add(fixture);
+    // 204/304 等状态不允许携带响应体
+    const body = fixture.body === "" ? null : Buffer.from(fixture.body, "base64");
+    return new Response(body, { status: fixture.status, headers: fixture.headers });
+  });
+
+  return {
+    fixtures,
+    save() {},
+    detach: () => stub.setFallback(undefined),
+  };
+}
@@ -0,0 +1,6 @@
+/**
+ * 测试工具模块
+ */
+
+export * from "./fetch-stub";
+export * from "./fixtures";
@@ -0,0 +1,122 @@
+/**
+ * 访问日志模块
+ *
+ * 请求结束后通过 logging 模块输出一条访问日志，替代各路由手写的 "request completed"
+ */
+
+import type { Logger, LogLevel } from "../logging/logger";
+
+export type StatusClass = "1xx" | "2xx" | "3xx" | "4xx" | "5xx";
+
+export interface AccessLogOptions {
+  /** 各状态码段使用的日志级别（默认 4xx 为 warn、5xx 为 error，其余为 info） */
+  levels?: Partial<Record<StatusClass, LogLevel>>;
+  /** 不记录的路径：字符串按前缀匹配，或正则（如 `["/api/health"]`） */
+  exclude?: Array<string | RegExp>;
+}
+
+export interface AccessLogEntry {
+  method: string;
+  path: string;
+  /** 路由模板（如 `/api/users/[id]`） */
+  route?: string;
+  status: number;
+  durationMs: number;
+  /** 响应体字节数（来自 Content-Length，未知时省略） */
+  responseSize?: number;
+  userAgent?: string;
+  /** 上游传入的 trace_id（本服务开启新 trace 时省略） */
+  upstreamTraceId?: string;
+  /** 流式响应：首字节耗时（毫秒） */
+  firstByteMs?: number;
+  /** 流式响应：发送的 chunk 数 */
+  chunks?: number;
+  /** 流式响应：客户端在流结束前断开 */
+  aborted?: boolean;
+}
+
+const DEFAULT_LEVELS: Record<StatusClass, LogLevel> = {
+  "1xx": "info",
+  "2xx": "info",
+  "3xx": "info",
+  "4xx": "warn",
+  "5xx": "error",
+};
+
+/**
+ * 规范化日志中的路径：合并重复的 `/`，去掉末尾的 `/`
+ */
+export function normalizeLogPath(path: string): string {
+  const normalized = path.replace(/\/{2,}/g, "/");
+  return normalized.length > 1 && normalized.endsWith("/")
+    ? normalized.slice(0, -1)
+    : normalized || "/";
+}
+
+function getStatusClass(status: number): StatusClass {
+  if (status >= 500) return "5xx";
+  if (status >= 400) return "4xx";
+  if (status >= 300) return "3xx";
+  if (status >= 200) return "2xx";
+  return "1xx";
+}
+
+function isExcluded(path: string, exclude: Array<string | RegExp>): boolean {
+  return exclude.some((pattern) =>
+    typeof pattern === "string" ? path.startsWith(pattern) : pattern.test(path)
+  );
+}
+
+/**
+ * 解析访问日志选项（`accessLog: true` 使用默认配置）
+ */
+export function resolveAccessLogOptions(
+  option: boolean | AccessLogOptions | undefined
+): AccessLogOptions | undefined {
+  if (!option) return undefined;
+  return option === true ? {} : option;
+}
+
+/**
+ * 从 Content-Length 读取响应大小
+ */
+export function parseContentLength(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const size = Number(value);
+  return Number.isFinite(size) && size >= 0 ? size : undefined;
+}
+
+/**
+ * 输出访问日志
+ *
+ * 需在请求的追踪上下文中调用，日志才会带上 trace_id / request_id
+ */
+export function logAccess(
+  logger: Logger,
+  entry: AccessLogEntry,
+  options: AccessLogOptions = {}
+): void {
+  const path = normalizeLogPath(entry.path);
+  if (options.exclude && isExcluded(path, options.exclude)) {
+    return;
+  }
+
+  const statusClass = getStatusClass(entry.status);
+  const level = options.levels?.[statusClass] ?? DEFAULT_LEVELS[statusClass];
+
+  const extra: Record<string, unknown> = {
+    method: entry.method,
+    path,
+    ...(entry.route ? { route: entry.route } : {}),
+    status: entry.status,
+    durationMs: entry.durationMs,
+  };
+  if (entry.responseSize !== undefined) extra.responseSize = entry.responseSize;
+  if (entry.userAgent) extra.userAgent = entry.userAgent;
+  if (entry.upstreamTraceId) extra.upstreamTraceId = entry.upstreamTraceId;
+  if (entry.firstByteMs !== undefined) extra.firstByteMs = entry.firstByteMs;
+  if (entry.chunks !== undefined) extra.chunks = entry.chunks;
+  if (entry.aborted) extra.aborted = true;
+
+  logger[level]("Request completed", extra);
+}
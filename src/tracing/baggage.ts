@@ -0,0 +1,150 @@
+/**
+ * W3C Baggage 模块
+ *
+ * 在各服务间传递少量请求级 key/value（如租户 ID、用户等级、实验分桶）
+ *
+ * @see https://www.w3.org/TR/baggage/
+ */
+
+import {
+  getTraceContext,
+  runWithTraceContext,
+  type TraceContext,
+} from "./context";
+
+export const BAGGAGE_HEADER = "baggage";
+
+/** 规范限制：最多 64 个条目 */
+export const BAGGAGE_MAX_MEMBERS = 64;
+
+/** 规范限制：header 总长度不超过 8192 字节 */
+export const BAGGAGE_MAX_BYTES = 8192;
+
+export type Baggage = Record<string, string>;
+
+// RFC 7230 token
+const KEY_REGEX = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+const encoder = new TextEncoder();
+
+function byteLength(value: string): number {
+  return encoder.encode(value).length;
+}
+
+function safeDecode(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 解析 `baggage` header
+ *
+ * 非法条目会被忽略；条目属性（`;` 之后的部分）不保留。
+ * 超出 64 个条目或 8192 字节的部分整体丢弃，不会截断单个条目。
+ */
+export function parseBaggage(value: string | null | undefined): Baggage {
+  const baggage: Baggage = {};
+  if (!value) {
+    return baggage;
+  }
+
+  let count = 0;
+  let bytes = 0;
+
+  for (const rawMember of value.split(",")) {
+    const member = rawMember.trim();
+    if (!member) continue;
+
+    const memberBytes = byteLength(member) + (count > 0 ? 1 : 0);
+    if (count >= BAGGAGE_MAX_MEMBERS || bytes + memberBytes > BAGGAGE_MAX_BYTES) {
+      break;
+    }
+
+    const [pair] = member.split(";");
+    const eq = pair.indexOf("=");
+    if (eq <= 0) continue;
+
+    const key = pair.substring(0, eq).trim();
+    const decoded = safeDecode(pair.substring(eq + 1).trim());
+    if (!KEY_REGEX.test(key) || decoded === undefined) continue;
+
+    baggage[key] = decoded;
+    count++;
+    bytes += memberBytes;
+  }
+
+  return baggage;
+}
+
+/**
+ * 生成 `baggage` header 值
+ *
+ * 按规范限制丢弃超出的条目；无条目时返回 undefined
+ */
+export function formatBaggage(baggage: Baggage): string | undefined {
+  const members: string[] = [];
+  let bytes = 0;
+
+  for (const [key, value] of Object.entries(baggage)) {
+    if (!KEY_REGEX.test(key)) continue;
+
+    const member = `${key}=${encodeURIComponent(value)}`;
+    const memberBytes = byteLength(member) + (members.length > 0 ? 1 : 0);
+    if (
+      members.length >= BAGGAGE_MAX_MEMBERS ||
+      bytes + memberBytes > BAGGAGE_MAX_BYTES
+    ) {
+      continue;
+    }
+
+    members.push(member);
+    bytes += memberBytes;
+  }
+
+  return members.length > 0 ? members.join(",") : undefined;
+}
+
+/**
+ * 获取当前上下文的 baggage
+ */
+export function getBaggage(): Baggage {
+  return { ...getTraceContext().baggage };
+}
+
+/**
+ * 获取当前上下文中某个 baggage 值
+ */
+export function getBaggageValue(key: string): string | undefined {
+  return getTraceContext().baggage?.[key];
+}
+
+/**
+ * 在附加了 baggage 的上下文中运行函数
+ *
+ * 值为 undefined 表示移除该条目；之后的下游调用会带上新的 baggage
+ *
+ * @example
+ * await withBaggage({ tenantId: 'shop-42', tier: 'pro' }, async () => {
+ *   await tracedFetch('http://commerce/api/orders');
+ * });
+ */
+export function withBaggage<T>(
+  entries: Record<string, string | undefined>,
+  fn: () => T
+): T {
+  const current: TraceContext = getTraceContext();
+  const baggage: Baggage = { ...current.baggage };
+
+  for (const [key, value] of Object.entries(entries)) {
+    if (value === undefined) {
+      delete baggage[key];
+    } else {
+      baggage[key] = value;
+    }
+  }
+
+  return runWithTraceContext({ ...current, baggage }, fn);
+}
@@ -1,25 +1,79 @@
 /**
  * 追踪上下文模块
  *
- * 使用 AsyncLocalStorage 实现异步上下文隔离
+ * 使用 AsyncLocalStorage 实现异步上下文隔离；本模块不直接依赖
+ * `node:async_hooks`，存储由 ./storage 提供，Edge 运行时同样可用
  */
 
-import { AsyncLocalStorage } from "node:async_hooks";
+import { parseBaggage, type Baggage } from "./baggage";
+import type { ServerTimingEntry } from "./server-timing";
+import type { Span } from "./span";
+import { getContextStorage } from "./storage";
+import {
+  isValidTraceState,
+  sanitizeSpanId,
+  sanitizeTraceId,
+  type TraceHeaderValidationOptions,
+} from "./validation";
+import {
+  fromW3CTraceId,
+  parseTraceparent,
+  TRACE_FLAG_SAMPLED,
+  toW3CTraceId,
+  type TraceHeaderPrecedence,
+} from "./w3c";
 
 export interface TraceContext {
   traceId?: string;
   requestId?: string;
   parentSpanId?: string;
+  /** 当前 span 的 span_id */
+  spanId?: string;
+  /** 当前活动 span（由 withSpan / withTracing 设置） */
+  span?: Span;
+  /** W3C `tracestate`，原样透传给下游 */
+  traceState?: string;
+  /** W3C trace-flags（默认 0x01 sampled） */
+  traceFlags?: number;
+  /** 采样决策（undefined 表示尚未决策，按采样处理） */
+  sampled?: boolean;
+  /** W3C baggage 条目 */
+  baggage?: Baggage;
+  /** 当前请求的 Server-Timing 记录（仅在启用时存在） */
+  timings?: ServerTimingEntry[];
+  /** 请求截止时间（毫秒时间戳），由上游 `X-Request-Timeout-Ms` 换算 */
+  deadline?: number;
+  /** 路由模板（如 `/api/users/[id]`），用于按路由聚合 */
+  route?: string;
+  /** 上游传入但未通过校验的 trace_id（`onInvalid: "preserve"` 时记录） */
+  upstreamTraceId?: string;
 }
 
-// AsyncLocalStorage 实例
-const asyncLocalStorage = new AsyncLocalStorage<TraceContext>();
+export interface UpstreamDeadlineOptions {
+  /** 上游预算的下限（毫秒，默认 100），避免极小的预算让本请求的出站调用立即超时 */
+  minTimeoutMs?: number;
+}
+
+export interface ParseTraceContextOptions {
+  /** 同时存在 Optima header 与 `traceparent` 时的优先级（默认 "optima"） */
+  precedence?: TraceHeaderPrecedence;
+  /** 上游 trace_id / span_id 校验（默认开启，传 false 关闭） */
+  validation?: TraceHeaderValidationOptions | false;
+  /**
+   * 是否接受 `X-Request-Timeout-Ms` 作为截止时间（默认 false）
+   *
+   * 该 header 可由任意客户端设置，只应对可信的内部调用方开启
+   */
+  deadline?: boolean | UpstreamDeadlineOptions;
+}
+
+export const DEFAULT_MIN_UPSTREAM_TIMEOUT_MS = 100;
 
 /**
  * 获取当前追踪上下文
  */
 export function getTraceContext(): TraceContext {
-  return asyncLocalStorage.getStore() || {};
+  return getContextStorage<TraceContext>().getStore() || {};
 }
 
 /**
@@ -59,16 +113,249 @@ export function runWithTraceContext<T>(
   context: TraceContext,
   fn: () => T
 ): T {
-  return asyncLocalStorage.run(context, fn);
+  return getContextStorage<TraceContext>().run(context, fn);
 }
 
 /**
- * 从请求 header 解析追踪上下文
+ * 捕获当前追踪上下文的快照
+ *
+ * 不在上下文中时返回 undefined。快照与原上下文共享 span / timings 等引用，
+ * 可保存到连接池、worker 等长生命周期对象上，之后用 restoreTraceContext 恢复。
  */
-export function parseTraceContextFromHeaders(headers: Headers): TraceContext {
+export function captureTraceContext(): TraceContext | undefined {
+  const context = getContextStorage<TraceContext>().getStore();
+  return context ? { ...context } : undefined;
+}
+
+/**
+ * 在快照的上下文中运行函数
+ *
+ * 快照为 undefined 时在空上下文中运行，避免沿用调用方的上下文
+ */
+export function restoreTraceContext<T>(
+  snapshot: TraceContext | undefined,
+  fn: () => T
+): T {
+  return runWithTraceContext(snapshot ?? {}, fn);
+}
+
+/**
+ * 将函数绑定到当前追踪上下文
+ *
+ * 适用于回调、定时器、交给连接池或队列执行的函数
+ *
+ * @example
+ * setTimeout(bindTraceContext(() => logger.info('flushed')), 1000);
+ * pool.acquire(bindTraceContext((conn) => conn.query(sql)));
+ */
+export function bindTraceContext<A extends unknown[], R>(
+  fn: (...args: A) => R,
+  snapshot: TraceContext | undefined = captureTraceContext()
+): (...args: A) => R {
+  return function (this: unknown, ...args: A): R {
+    return restoreTraceContext(snapshot, () => fn.apply(this, args));
+  };
+}
+
+interface EmitterLike {
+  emit(event: string | symbol, ...args: unknown[]): boolean;
+}
+
+/**
+ * 将 EventEmitter 绑定到当前追踪上下文
+ *
+ * 之后 emit 的事件，其监听器都在绑定时的上下文中运行，
+ * 与监听器在何处注册、由谁触发无关。返回同一个 emitter。
+ *
+ * @example
+ * const socket = bindEmitter(connection.socket);
+ * socket.on('data', () => logger.info('received')); // 日志带当前 trace_id
+ */
+export function bindEmitter<E extends EmitterLike>(
+  emitter: E,
+  snapshot: TraceContext | undefined = captureTraceContext()
+): E {
+  const emit = emitter.emit;
+  emitter.emit = function (this: E, event: string | symbol, ...args: unknown[]) {
+    return restoreTraceContext(snapshot, () => emit.call(this, event, ...args));
+  };
+  return emitter;
+}
+
+/**
+ * 将异步迭代器绑定到当前追踪上下文
+ *
+ * 每次 next / return / throw 都在绑定时的上下文中执行，
+ * 适用于 Node.js Readable、async generator 等在请求外被消费的数据源
+ *
+ * @example
+ * for await (const chunk of bindAsyncIterable(readable)) {
+ *   // 生产 chunk 的代码中可以访问 trace_id
+ * }
+ */
+export function bindAsyncIterable<T>(
+  iterable: AsyncIterable<T>,
+  snapshot: TraceContext | undefined = captureTraceContext()
+): AsyncIterable<T> {
   return {
-    traceId: headers.get("X-Trace-ID") || undefined,
-    parentSpanId: headers.get("X-Parent-Span-ID") || undefined,
-    // requestId 每个服务自己生成，不从 header 读取
+    [Symbol.asyncIterator](): AsyncIterator<T> {
+      const iterator = restoreTraceContext(snapshot, () =>
+        iterable[Symbol.asyncIterator]()
+      );
+
+      return {
+        next: (...args: [] | [unknown]) =>
+          restoreTraceContext(snapshot, () => iterator.next(...args)),
+        return: (value?: unknown) =>
+          restoreTraceContext(snapshot, () =>
+            iterator.return
+              ? iterator.return(value)
+              : Promise.resolve({ done: true as const, value: value as T })
+          ),
+        throw: (error?: unknown) =>
+          restoreTraceContext(snapshot, () =>
+            iterator.throw ? iterator.throw(error) : Promise.reject(error)
+          ),
+      };
+    },
   };
 }
+
+/**
+ * 将 ReadableStream 绑定到当前追踪上下文
+ *
+ * 返回新的流，读取原流（触发其 pull）时处于绑定时的上下文中
+ */
+export function bindReadableStream<T>(
+  stream: ReadableStream<T>,
+  snapshot: TraceContext | undefined = captureTraceContext()
+): ReadableStream<T> {
+  const reader = stream.getReader();
+
+  return new ReadableStream<T>({
+    pull: async (controller) => {
+      const { done, value } = await restoreTraceContext(snapshot, () =>
+        reader.read()
+      );
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel: (reason) =>
+      restoreTraceContext(snapshot, () => reader.cancel(reason)),
+  });
+}
+
+/**
+ * 解析 `X-Trace-Sampled` header（"1" / "0"）
+ */
+function parseSampledHeader(value: string | null): boolean | undefined {
+  if (value === "1" || value === "true") return true;
+  if (value === "0" || value === "false") return false;
+  return undefined;
+}
+
+/**
+ * 解析 `X-Request-Timeout-Ms` header（非负整数毫秒）
+ */
+function parseTimeoutHeader(value: string | null): number | undefined {
+  if (!value || !/^\d{1,10}$/.test(value)) return undefined;
+  return Number(value);
+}
+
+/**
+ * 从请求 header 解析追踪上下文
+ *
+ * 同时识别 Optima 自定义 header（`X-Trace-ID` / `X-Parent-Span-ID` / `X-Request-Timeout-Ms`）
+ * 与 W3C `traceparent` / `tracestate` / `baggage`
+ */
+export function parseTraceContextFromHeaders(
+  headers: Headers,
+  options: ParseTraceContextOptions = {}
+): TraceContext {
+  const { precedence = "optima", deadline = false } = options;
+  const validation =
+    options.validation === false ? undefined : (options.validation ?? {});
+
+  const rawTraceId = headers.get("X-Trace-ID") || undefined;
+  const rawParentSpanId = headers.get("X-Parent-Span-ID") || undefined;
+  let optimaTraceId = rawTraceId;
+  let optimaParentSpanId = rawParentSpanId;
+  let upstreamTraceId: string | undefined;
+
+  if (validation) {
+    const sanitized = sanitizeTraceId(rawTraceId, validation);
+    optimaTraceId = sanitized.traceId;
+    upstreamTraceId = sanitized.upstreamTraceId;
+    // trace_id 被丢弃时，其 parent span 也不再有意义
+    optimaParentSpanId =
+      rawTraceId && !optimaTraceId
+        ? undefined
+        : sanitizeSpanId(rawParentSpanId, validation);
+  }
+
+  const optimaSampled = parseSampledHeader(headers.get("X-Trace-Sampled"));
+  const traceparent = parseTraceparent(headers.get("traceparent"));
+
+  // requestId 每个服务自己生成，不从 header 读取
+  const context: TraceContext = {};
+  if (upstreamTraceId) {
+    context.upstreamTraceId = upstreamTraceId;
+  }
+
+  // 上游剩余的超时预算（毫秒），按下限截断后换算为本地截止时间
+  const timeoutMs = deadline
+    ? parseTimeoutHeader(headers.get("X-Request-Timeout-Ms"))
+    : undefined;
+  if (timeoutMs !== undefined) {
+    const { minTimeoutMs = DEFAULT_MIN_UPSTREAM_TIMEOUT_MS } =
+      typeof deadline === "object" ? deadline : {};
+    context.deadline = Date.now() + Math.max(timeoutMs, minTimeoutMs);
+  }
+
+  const baggage = parseBaggage(headers.get("baggage"));
+  if (Object.keys(baggage).length > 0) {
+    context.baggage = baggage;
+  }
+
+  // Optima trace_id 与 traceparent 是否指向同一条 trace（没有 Optima trace_id 时视为一致）
+  const sameTrace =
+    traceparent !== undefined &&
+    (!optimaTraceId || toW3CTraceId(optimaTraceId) === traceparent.traceId);
+
+  // 以 Optima header 为准且 traceparent 属于另一条 trace 时，其 tracestate / flags / 采样位都不沿用
+  if (!traceparent || (precedence === "optima" && !sameTrace)) {
+    context.traceId = optimaTraceId;
+    context.parentSpanId = optimaParentSpanId;
+    if (optimaSampled !== undefined) {
+      context.sampled = optimaSampled;
+    }
+    return context;
+  }
+
+  const w3cSampled = (traceparent.traceFlags & TRACE_FLAG_SAMPLED) !== 0;
+
+  const w3cTraceId = fromW3CTraceId(traceparent.traceId);
+
+  if (precedence === "w3c") {
+    // Optima trace_id 与 traceparent 一致时保留可读格式
+    context.traceId = optimaTraceId && sameTrace ? optimaTraceId : w3cTraceId;
+    context.parentSpanId = traceparent.parentId;
+    context.sampled = w3cSampled;
+  } else {
+    context.traceId = optimaTraceId || w3cTraceId;
+    context.parentSpanId = optimaParentSpanId || traceparent.parentId;
+    context.sampled = optimaSampled ?? w3cSampled;
+  }
+
+  context.traceFlags = traceparent.traceFlags;
+
+  const traceState = headers.get("tracestate");
+  if (traceState && (!validation || isValidTraceState(traceState))) {
+    context.traceState = traceState;
+  }
+
+  return context;
+}
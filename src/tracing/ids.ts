@@ -40,6 +40,21 @@ export function generateRequestId(prefix: string = "req"): string {
   return `${prefix}_${randomHex(12)}`;
 }
 
+/**
+ * 生成 span_id
+ *
+ * 格式: 16 位 hex（与 W3C parent-id 兼容）
+ * 示例: 00f067aa0ba902b7
+ */
+export function generateSpanId(): string {
+  let spanId = randomHex(16);
+  // W3C 规定全零 span id 非法
+  while (/^0+$/.test(spanId)) {
+    spanId = randomHex(16);
+  }
+  return spanId;
+}
+
 /**
  * 解析 trace_id
  */
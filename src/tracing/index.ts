@@ -1,3 +1,20 @@
+import "./node";
+
 export * from "./ids";
 export * from "./context";
+export * from "./w3c";
+export * from "./span";
+export * from "./sampling";
+export * from "./baggage";
+export * from "./server-timing";
+export * from "./access-log";
+export * from "./validation";
+export * from "./route";
+export * from "./stream";
 export * from "./middleware";
+export * from "./job";
+export {
+  isAsyncContextSupported,
+  installContextStorage,
+  type ContextStorage,
+} from "./storage";
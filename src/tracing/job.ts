@@ -0,0 +1,218 @@
+/**
+ * 后台任务追踪模块
+ *
+ * 追踪上下文序列化后随任务 payload 入队，worker 侧用 withJobTracing 恢复，
+ * 使任务日志与入队请求共用同一个 trace_id
+ */
+
+import { getLogger, type Logger } from "../logging/logger";
+import type { Baggage } from "./baggage";
+import {
+  getTraceContext,
+  runWithTraceContext,
+  type TraceContext,
+} from "./context";
+import { generateRequestId, generateTraceId } from "./ids";
+import { createSampler, type Sampler, type SamplerConfig } from "./sampling";
+import { contextWithSpan, startSpan } from "./span";
+
+/**
+ * 序列化后的追踪上下文（可 JSON 化，嵌入任务 payload）
+ */
+export interface SerializedTraceContext {
+  traceId: string;
+  /** 入队时的 span_id，作为任务 span 的父 span */
+  spanId?: string;
+  sampled?: boolean;
+  traceState?: string;
+  baggage?: Baggage;
+}
+
+/**
+ * withJobTracing 默认从任务 payload 的该字段读取追踪上下文
+ */
+export const JOB_TRACE_CONTEXT_KEY = "traceContext";
+
+// payload 来自队列，限制字段长度
+const MAX_FIELD_LENGTH = 512;
+
+/**
+ * 序列化追踪上下文
+ *
+ * 不在追踪上下文中时返回 undefined
+ *
+ * @example
+ * await queue.add('send-email', {
+ *   to: user.email,
+ *   traceContext: serializeTraceContext(),
+ * });
+ */
+export function serializeTraceContext(
+  context: TraceContext = getTraceContext()
+): SerializedTraceContext | undefined {
+  if (!context.traceId) {
+    return undefined;
+  }
+
+  const serialized: SerializedTraceContext = { traceId: context.traceId };
+  // 与 getTraceHeaders 一致：无 span 时以 requestId 作为父 span
+  const spanId = context.spanId || context.requestId;
+  if (spanId) serialized.spanId = spanId;
+  if (context.sampled !== undefined) serialized.sampled = context.sampled;
+  if (context.traceState) serialized.traceState = context.traceState;
+  if (context.baggage && Object.keys(context.baggage).length > 0) {
+    serialized.baggage = { ...context.baggage };
+  }
+  return serialized;
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" &&
+    value.length > 0 &&
+    value.length <= MAX_FIELD_LENGTH
+    ? value
+    : undefined;
+}
+
+/**
+ * 反序列化追踪上下文
+ *
+ * 接受 serializeTraceContext 的结果或其 JSON 字符串；格式不合法时返回 undefined。
+ * 返回的上下文以入队 span 为父 span，不含 requestId。
+ */
+export function deserializeTraceContext(
+  value: unknown
+): TraceContext | undefined {
+  let data = value;
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!data || typeof data !== "object") {
+    return undefined;
+  }
+
+  const record = data as Record<string, unknown>;
+  const traceId = readString(record.traceId);
+  if (!traceId) {
+    return undefined;
+  }
+
+  const context: TraceContext = { traceId };
+  const spanId = readString(record.spanId);
+  if (spanId) context.parentSpanId = spanId;
+  if (typeof record.sampled === "boolean") context.sampled = record.sampled;
+  const traceState = readString(record.traceState);
+  if (traceState) context.traceState = traceState;
+
+  if (record.baggage && typeof record.baggage === "object") {
+    const baggage: Baggage = {};
+    for (const [key, entry] of Object.entries(record.baggage)) {
+      if (typeof entry === "string") baggage[key] = entry;
+    }
+    if (Object.keys(baggage).length > 0) context.baggage = baggage;
+  }
+
+  return context;
+}
+
+export interface JobTracingOptions<J> {
+  serviceName: string;
+  serviceShort?: string;
+  /** 新 trace 的采样策略（默认全部采样） */
+  sampler?: SamplerConfig | Sampler;
+  /** 入队时已有采样决策时沿用（默认 true） */
+  respectUpstreamSampling?: boolean;
+  /** 记录任务开始 / 结束 / 失败使用的 logger（默认 getLogger()） */
+  logger?: Logger;
+  /** 从任务中读取序列化的追踪上下文（默认读取 `job.traceContext`） */
+  traceContext?: (job: J) => unknown;
+}
+
+function defaultJobTraceContext(job: unknown): unknown {
+  return job && typeof job === "object"
+    ? (job as Record<string, unknown>)[JOB_TRACE_CONTEXT_KEY]
+    : undefined;
+}
+
+/**
+ * 包装后台任务处理函数添加追踪支持
+ *
+ * 从任务 payload 恢复入队时的 trace（没有时开启新 trace），生成任务 request_id，
+ * 在以入队 span 为父 span 的 consumer span 中运行，并记录开始 / 完成 / 失败日志与耗时。
+ * 处理函数的异常在记录后原样抛出，由队列决定是否重试。
+ *
+ * @example
+ * const sendEmail = withJobTracing('send-email', async (job: EmailJob) => {
+ *   await mailer.send(job.to);
+ * }, { serviceName: 'notification-worker', serviceShort: 'notif' });
+ *
+ * worker.process('send-email', (job) => sendEmail(job.data));
+ */
+export function withJobTracing<J, R>(
+  name: string,
+  handler: (job: J) => R | Promise<R>,
+  options: JobTracingOptions<J>
+): (job: J) => Promise<R> {
+  const {
+    serviceName,
+    serviceShort = serviceName.substring(0, 4),
+    respectUpstreamSampling = true,
+    traceContext = defaultJobTraceContext,
+  } = options;
+  const sampler = createSampler(options.sampler ?? "always");
+
+  return async (job: J) => {
+    const startTime = Date.now();
+    const logger = options.logger ?? getLogger();
+    const upstream = deserializeTraceContext(traceContext(job)) ?? {};
+    const traceId = upstream.traceId || generateTraceId(serviceShort);
+
+    const baseContext: TraceContext = {
+      ...upstream,
+      traceId,
+      requestId: generateRequestId(`${serviceShort}_job`),
+      sampled:
+        respectUpstreamSampling && upstream.sampled !== undefined
+          ? upstream.sampled
+          : sampler({ traceId, method: "JOB", path: name }),
+    };
+
+    const span = startSpan(`job ${name}`, {
+      kind: "consumer",
+      startTime,
+      parent: baseContext,
+      attributes: {
+        "job.name": name,
+        "service.name": serviceName,
+      },
+    });
+    const context = contextWithSpan(span, baseContext);
+
+    return runWithTraceContext(context, async () => {
+      logger.info("Job started", { job: name });
+      try {
+        const result = await handler(job);
+        logger.info("Job completed", {
+          job: name,
+          durationMs: Date.now() - startTime,
+        });
+        return result;
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        span.recordException(err);
+        span.setStatus("error", err.message);
+        logger.exception("Job failed", err, {
+          job: name,
+          durationMs: Date.now() - startTime,
+        });
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  };
+}
@@ -3,13 +3,44 @@
  */
 
 import { getCachedBuildInfo } from "../config/build-info";
+import { getLogger, type Logger } from "../logging/logger";
 import {
   getTraceContext,
   parseTraceContextFromHeaders,
   runWithTraceContext,
   type TraceContext,
+  type UpstreamDeadlineOptions,
 } from "./context";
+import {
+  logAccess,
+  parseContentLength,
+  resolveAccessLogOptions,
+  type AccessLogOptions,
+} from "./access-log";
+import { BAGGAGE_HEADER, formatBaggage } from "./baggage";
 import { generateRequestId, generateTraceId } from "./ids";
+import { createSampler, type Sampler, type SamplerConfig } from "./sampling";
+import type { TraceHeaderValidationOptions } from "./validation";
+import { getRouteParams, resolveRoute, type RouteOptions } from "./route";
+import {
+  formatServerTiming,
+  isServerTimingEnabled,
+  SERVER_TIMING_HEADER,
+  type ServerTimingOptions,
+} from "./server-timing";
+import { contextWithSpan, startSpan } from "./span";
+import {
+  isStreamingResponse,
+  traceResponseStream,
+  type StreamStats,
+} from "./stream";
+import {
+  formatTraceparent,
+  TRACE_FLAG_SAMPLED,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  type TraceHeaderPrecedence,
+} from "./w3c";
 
 // Header 常量
 export const TRACE_ID_HEADER = "X-Trace-ID";
@@ -18,44 +49,223 @@ export const PARENT_SPAN_ID_HEADER = "X-Parent-Span-ID";
 export const DEPLOYMENT_ID_HEADER = "X-Deployment-ID";
 export const RESPONSE_TIME_HEADER = "X-Response-Time";
 export const SERVED_BY_HEADER = "X-Served-By";
+export const SAMPLED_HEADER = "X-Trace-Sampled";
+export const REQUEST_TIMEOUT_HEADER = "X-Request-Timeout-Ms";
 
-export interface TracingOptions {
+export interface TracingOptions extends RouteOptions {
   serviceName: string;
   serviceShort?: string;
+  /** 同时收到 Optima header 与 W3C `traceparent` 时的优先级（默认 "optima"） */
+  traceHeaderPrecedence?: TraceHeaderPrecedence;
+  /** 采样配置（默认 "always"），可用 createRuleSampler 按路由配置 */
+  sampler?: SamplerConfig | Sampler;
+  /** 上游已有采样决策时沿用（默认 true） */
+  respectUpstreamSampling?: boolean;
+  /** 上游 trace_id / span_id 校验（默认开启：最长 128 字符、限定字符集，不合法时重新生成） */
+  traceHeaderValidation?: TraceHeaderValidationOptions | false;
+  /**
+   * 是否信任上游追踪 header（默认 true）
+   *
+   * 不信任时忽略所有入站追踪 header 并开启新 trace，
+   * 可用 createTrustedSourceMatcher 只信任内部来源
+   */
+  trustUpstreamHeaders?: boolean | ((request: InboundRequestInfo) => boolean);
+  /**
+   * 是否接受上游 `X-Request-Timeout-Ms` 作为本请求的截止时间（默认 false）
+   *
+   * 客户端可任意设置该 header，只应在调用方均为内部服务时开启，
+   * 或配合 trustUpstreamHeaders 只接受可信来源；预算按 `minTimeoutMs`（默认 100ms）设下限
+   */
+  upstreamDeadline?: boolean | UpstreamDeadlineOptions;
+  /** 记录 handler 异常使用的 logger（默认 getLogger()） */
+  logger?: Logger;
+  /**
+   * handler 抛出异常时的自定义处理
+   *
+   * 返回 Response 直接使用；返回 `{ status, body }` 按 JSON 响应；
+   * 返回 undefined 时使用默认 500 响应
+   */
+  onError?: (
+    error: unknown,
+    info: TracingErrorInfo
+  ) =>
+    | Response
+    | TracingErrorMapping
+    | undefined
+    | void
+    | Promise<Response | TracingErrorMapping | undefined | void>;
+  /** 自定义默认错误响应体（默认 `{ error, traceId, requestId }`） */
+  errorBody?: (info: TracingErrorInfo) => unknown;
+  /**
+   * 输出 `Server-Timing` header（默认关闭）
+   *
+   * 生产环境默认不输出，可用 `enabledInProduction` 或 `SERVER_TIMING` 环境变量控制
+   */
+  serverTiming?: boolean | ServerTimingOptions;
+  /**
+   * 请求结束后输出访问日志（默认关闭）
+   *
+   * 记录 method、path、status、耗时、响应大小、User-Agent 与上游 trace_id
+   */
+  accessLog?: boolean | AccessLogOptions;
+  /**
+   * 流式响应追踪（默认按响应判断：SSE、NDJSON、Vercel AI SDK 数据流）
+   *
+   * 流式响应的 span 与访问日志在响应体结束后输出，记录首字节耗时、总耗时、字节数、
+   * chunk 数与客户端断开；传 false 关闭，传函数自定义判断
+   */
+  streaming?: boolean | ((response: Response) => boolean);
+}
+
+export interface TracingErrorInfo {
+  request: Request;
+  traceId?: string;
+  requestId?: string;
+  /** 最终响应状态码（onError 调用时为 500） */
+  status: number;
+}
+
+export interface TracingErrorMapping {
+  status: number;
+  /** 响应体（默认使用 errorBody） */
+  body?: unknown;
+  headers?: Record<string, string>;
 }
 
 /**
- * 为响应添加追踪 header
+ * 默认错误响应体
  */
-export function addTracingHeaders(
-  response: Response,
+function defaultErrorBody(info: TracingErrorInfo): unknown {
+  return {
+    error: info.status >= 500 ? "Internal Server Error" : "Request Failed",
+    traceId: info.traceId,
+    requestId: info.requestId,
+  };
+}
+
+/**
+ * 将 handler 抛出的异常转为响应并记录日志
+ *
+ * 需在请求的追踪上下文中调用，以便日志带上 trace_id
+ */
+async function handleHandlerError(
+  error: unknown,
+  request: Request,
   context: TraceContext,
-  options: {
-    serviceName: string;
-    durationMs: number;
+  options: TracingOptions
+): Promise<Response> {
+  const { logger = getLogger(), onError, errorBody = defaultErrorBody } = options;
+  const info: TracingErrorInfo = {
+    request,
+    traceId: context.traceId,
+    requestId: context.requestId,
+    status: 500,
+  };
+
+  let mapped: Response | TracingErrorMapping | undefined | void;
+  if (onError) {
+    try {
+      mapped = await onError(error, info);
+    } catch (hookError) {
+      logger.exception(
+        "onError hook failed",
+        hookError instanceof Error ? hookError : new Error(String(hookError))
+      );
+    }
   }
-): Response {
-  const buildInfo = getCachedBuildInfo();
 
-  // 克隆响应以添加 header
-  const headers = new Headers(response.headers);
+  let response: Response;
+  if (mapped instanceof Response) {
+    response = mapped;
+  } else {
+    const status = mapped?.status ?? 500;
+    const body =
+      mapped && "body" in mapped && mapped.body !== undefined
+        ? mapped.body
+        : errorBody({ ...info, status });
+    response = Response.json(body, { status, headers: mapped?.headers });
+  }
+
+  const err = error instanceof Error ? error : new Error(String(error));
+  const extra = {
+    method: request.method,
+    path: new URL(request.url).pathname,
+    status: response.status,
+  };
+
+  if (response.status >= 500) {
+    logger.exception("Unhandled error in request handler", err, extra);
+  } else {
+    logger.warn("Request handler error mapped to response", {
+      ...extra,
+      errorType: err.name,
+      errorMessage: err.message,
+    });
+  }
+
+  return response;
+}
+
+export interface TracingHeaderOptions {
+  serviceName: string;
+  durationMs: number;
+  /** `Server-Timing` header 值 */
+  serverTiming?: string;
+}
+
+/**
+ * 生成写入响应的追踪 header
+ *
+ * 供 addTracingHeaders 及各框架适配器共用
+ */
+export function buildTracingHeaders(
+  context: TraceContext,
+  options: TracingHeaderOptions
+): Record<string, string> {
+  const buildInfo = getCachedBuildInfo();
+  const headers: Record<string, string> = {};
 
   if (context.traceId) {
-    headers.set(TRACE_ID_HEADER, context.traceId);
+    headers[TRACE_ID_HEADER] = context.traceId;
   }
 
   if (context.requestId) {
-    headers.set(REQUEST_ID_HEADER, context.requestId);
+    headers[REQUEST_ID_HEADER] = context.requestId;
   }
 
-  headers.set(RESPONSE_TIME_HEADER, `${options.durationMs.toFixed(2)}ms`);
-  headers.set(
-    SERVED_BY_HEADER,
-    `${options.serviceName}-${buildInfo.shortCommit}`
-  );
+  headers[RESPONSE_TIME_HEADER] = `${options.durationMs.toFixed(2)}ms`;
+
+  if (options.serverTiming) {
+    headers[SERVER_TIMING_HEADER] = options.serverTiming;
+  }
+
+  headers[SERVED_BY_HEADER] = `${options.serviceName}-${buildInfo.shortCommit}`;
 
   if (buildInfo.deploymentId) {
-    headers.set(DEPLOYMENT_ID_HEADER, buildInfo.deploymentId);
+    headers[DEPLOYMENT_ID_HEADER] = buildInfo.deploymentId;
+  }
+
+  return headers;
+}
+
+/**
+ * 为响应添加追踪 header
+ */
+export function addTracingHeaders(
+  response: Response,
+  context: TraceContext,
+  options: TracingHeaderOptions
+): Response {
+  // 克隆响应以添加 header
+  const headers = new Headers(response.headers);
+
+  for (const [key, value] of Object.entries(buildTracingHeaders(context, options))) {
+    // handler 自己的 Server-Timing 保留，追加在其后
+    if (key === SERVER_TIMING_HEADER) {
+      headers.append(key, value);
+    } else {
+      headers.set(key, value);
+    }
   }
 
   return new Response(response.body, {
@@ -65,9 +275,90 @@ export function addTracingHeaders(
   });
 }
 
+/**
+ * 入站请求信息（与具体框架无关）
+ */
+export interface InboundRequestInfo {
+  headers: Headers;
+  method: string;
+  /** URL pathname */
+  path: string;
+  /** 对端地址（node:http 适配器取自 socket，用于判断可信来源） */
+  remoteAddress?: string;
+}
+
+/**
+ * 解析入站请求携带的上游追踪信息
+ *
+ * 按 `trustUpstreamHeaders` 判断来源，不可信时返回空上下文；
+ * 按 `traceHeaderValidation` 校验 trace_id / span_id
+ */
+export function parseUpstreamTraceContext(
+  request: InboundRequestInfo,
+  options: TracingOptions
+): TraceContext {
+  const { trustUpstreamHeaders = true } = options;
+  const trusted =
+    typeof trustUpstreamHeaders === "function"
+      ? trustUpstreamHeaders(request)
+      : trustUpstreamHeaders;
+  if (!trusted) {
+    return {};
+  }
+
+  return parseTraceContextFromHeaders(request.headers, {
+    precedence: options.traceHeaderPrecedence,
+    validation: options.traceHeaderValidation,
+    deadline: options.upstreamDeadline,
+  });
+}
+
+/**
+ * 为入站请求创建追踪上下文
+ *
+ * 解析上游追踪 header、生成 trace_id / request_id 并做采样决策。
+ * 供 withTracing 及各框架适配器共用；调用方已解析上游上下文时可传入复用，
+ * 避免重复执行 `trustUpstreamHeaders`
+ */
+export function createInboundTraceContext(
+  request: InboundRequestInfo,
+  options: TracingOptions,
+  sampler: Sampler = createSampler(options.sampler ?? "always"),
+  upstreamContext: TraceContext = parseUpstreamTraceContext(request, options)
+): TraceContext {
+  const {
+    serviceName,
+    serviceShort = serviceName.substring(0, 4),
+    respectUpstreamSampling = true,
+  } = options;
+
+  const traceId = upstreamContext.traceId || generateTraceId(serviceShort);
+
+  // 采样决策：优先沿用上游，否则由采样器决定
+  const sampled =
+    respectUpstreamSampling && upstreamContext.sampled !== undefined
+      ? upstreamContext.sampled
+      : sampler({ traceId, method: request.method, path: request.path });
+
+  return {
+    traceId,
+    requestId: generateRequestId(serviceShort),
+    parentSpanId: upstreamContext.parentSpanId,
+    traceState: upstreamContext.traceState,
+    traceFlags: upstreamContext.traceFlags,
+    sampled,
+    baggage: upstreamContext.baggage,
+    deadline: upstreamContext.deadline,
+    upstreamTraceId: upstreamContext.upstreamTraceId,
+  };
+}
+
 /**
  * 包装 API route handler 添加追踪支持
  *
+ * handler 抛出的异常会被捕获：通过 logger 记录、返回带 trace_id 的 JSON 错误响应
+ * （可用 onError 将已知错误映射为其他状态码），并同样添加追踪 header
+ *
  * @example
  * // app/api/users/route.ts
  * import { withTracing } from '@optima/core/tracing';
@@ -85,38 +376,163 @@ export function withTracing<T extends (request: Request, ...args: unknown[]) =>
   handler: T,
   options: TracingOptions
 ): T {
-  const { serviceName, serviceShort = serviceName.substring(0, 4) } = options;
+  const { serviceName } = options;
+  const sampler = createSampler(options.sampler ?? "always");
+  const accessLog = resolveAccessLogOptions(options.accessLog);
+  const serverTimingEnabled = isServerTimingEnabled(options.serverTiming);
+  const serverTimingMaxEntries =
+    typeof options.serverTiming === "object"
+      ? options.serverTiming.maxEntries
+      : undefined;
 
   return (async (request: Request, ...args: unknown[]) => {
     const startTime = Date.now();
-
-    // 从 header 解析上游追踪信息
-    const upstreamContext = parseTraceContextFromHeaders(request.headers);
+    // 每次请求时获取，包装发生在模块加载时（configureLogger 之前）也能使用配置后的 logger
+    const logger = options.logger ?? getLogger();
 
     // 创建当前请求的上下文
-    const context: TraceContext = {
-      traceId: upstreamContext.traceId || generateTraceId(serviceShort),
-      requestId: generateRequestId(serviceShort),
-      parentSpanId: upstreamContext.parentSpanId,
+    const url = new URL(request.url);
+    const inbound: InboundRequestInfo = {
+      headers: request.headers,
+      method: request.method,
+      path: url.pathname,
     };
+    // 上游追踪信息只解析一次，访问日志复用
+    const upstream = parseUpstreamTraceContext(inbound, options);
+    const baseContext = createInboundTraceContext(inbound, options, sampler, upstream);
 
-    // 在追踪上下文中运行 handler
-    const response = await runWithTraceContext(context, () =>
-      handler(request, ...args)
-    );
+    // 路由模板：显式配置 > Next.js 动态段参数推断 > 路径规范化
+    const route = resolveRoute(url.pathname, options, await getRouteParams(args[0]));
+
+    // 每个请求一个 server span，父 span 为上游 span
+    const span = startSpan(`${request.method} ${route}`, {
+      kind: "server",
+      startTime,
+      parent: baseContext,
+      attributes: {
+        "http.method": request.method,
+        "http.target": url.pathname,
+        "http.route": route,
+        "service.name": serviceName,
+      },
+    });
+    const context = contextWithSpan(span, { ...baseContext, route });
+    if (serverTimingEnabled) {
+      context.timings = [];
+    }
+
+    // 在追踪上下文中运行 handler，异常转为带 trace_id 的错误响应
+    const response = await runWithTraceContext(context, async () => {
+      try {
+        return await handler(request, ...args);
+      } catch (error) {
+        span.recordException(error);
+        const errorResponse = await handleHandlerError(
+          error,
+          request,
+          context,
+          options
+        );
+        if (errorResponse.status >= 500) {
+          span.setStatus(
+            "error",
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+        return errorResponse;
+      }
+    });
 
+    span.setAttribute("http.status_code", response.status);
+    if (response.status >= 500) {
+      span.setStatus("error");
+    }
+
+    // handler 返回耗时（流式响应为发出 header 的时间）
     const durationMs = Date.now() - startTime;
 
+    const complete = (stream?: StreamStats) => {
+      span.end();
+      if (!accessLog) return;
+
+      runWithTraceContext(context, () =>
+        logAccess(
+          logger,
+          {
+            method: request.method,
+            path: url.pathname,
+            route,
+            status: response.status,
+            durationMs: stream?.durationMs ?? durationMs,
+            responseSize: stream
+              ? stream.bytes
+              : parseContentLength(response.headers.get("Content-Length")),
+            userAgent: request.headers.get("User-Agent") || undefined,
+            upstreamTraceId: upstream.traceId ?? upstream.upstreamTraceId,
+            firstByteMs: stream?.firstByteMs,
+            chunks: stream?.chunks,
+            aborted: stream?.outcome === "aborted",
+          },
+          accessLog
+        )
+      );
+    };
+
+    const streaming =
+      typeof options.streaming === "function"
+        ? options.streaming(response)
+        : options.streaming ?? isStreamingResponse(response);
+
+    let tracedResponse = response;
+    if (streaming && response.body) {
+      tracedResponse = traceResponseStream(response, context, startTime, (stats) => {
+        span.setAttributes({
+          "stream.first_byte_ms": stats.firstByteMs,
+          "stream.duration_ms": stats.durationMs,
+          "stream.bytes": stats.bytes,
+          "stream.chunks": stats.chunks,
+          "stream.aborted": stats.outcome === "aborted",
+        });
+        if (stats.outcome === "error") {
+          span.recordException(stats.error);
+          span.setStatus(
+            "error",
+            stats.error instanceof Error ? stats.error.message : String(stats.error)
+          );
+          runWithTraceContext(context, () =>
+            logger.exception(
+              "Response stream failed",
+              stats.error instanceof Error ? stats.error : new Error(String(stats.error)),
+              { bytes: stats.bytes, chunks: stats.chunks, durationMs: stats.durationMs }
+            )
+          );
+        }
+        complete(stats);
+      });
+    } else {
+      complete();
+    }
+
     // 添加追踪 header 到响应
-    return addTracingHeaders(response, context, {
+    return addTracingHeaders(tracedResponse, context, {
       serviceName,
       durationMs,
+      serverTiming: context.timings
+        ? formatServerTiming(context.timings, {
+            maxEntries: serverTimingMaxEntries,
+            totalMs: durationMs,
+          })
+        : undefined,
     });
   }) as T;
 }
 
 /**
  * 获取需要传递给下游服务的追踪 header
+ *
+ * 同时输出 Optima header 与 W3C `traceparent` / `tracestate` / `baggage`，
+ * 已有采样决策时通过 trace-flags 与 `X-Trace-Sampled` 传递，
+ * 有截止时间时通过 `X-Request-Timeout-Ms` 传递剩余预算
  */
 export function getTraceHeaders(): Record<string, string> {
   const context = getTraceContext();
@@ -127,8 +543,45 @@ export function getTraceHeaders(): Record<string, string> {
     headers[TRACE_ID_HEADER] = context.traceId;
   }
 
-  if (context.requestId) {
-    headers[PARENT_SPAN_ID_HEADER] = context.requestId;
+  // 当前 span 即下游的父 span；无 span 时退化为 request_id
+  const parentSpanId = context.spanId || context.requestId;
+
+  if (parentSpanId) {
+    headers[PARENT_SPAN_ID_HEADER] = parentSpanId;
+  }
+
+  if (context.traceId) {
+    let traceFlags = context.traceFlags ?? TRACE_FLAG_SAMPLED;
+    if (context.sampled !== undefined) {
+      traceFlags = context.sampled
+        ? traceFlags | TRACE_FLAG_SAMPLED
+        : traceFlags & ~TRACE_FLAG_SAMPLED;
+      headers[SAMPLED_HEADER] = context.sampled ? "1" : "0";
+    }
+
+    headers[TRACEPARENT_HEADER] = formatTraceparent(
+      context.traceId,
+      parentSpanId || context.traceId,
+      traceFlags
+    );
+
+    if (context.traceState) {
+      headers[TRACESTATE_HEADER] = context.traceState;
+    }
+  }
+
+  if (context.baggage) {
+    const baggage = formatBaggage(context.baggage);
+    if (baggage) {
+      headers[BAGGAGE_HEADER] = baggage;
+    }
+  }
+
+  // 剩余的超时预算
+  if (context.deadline !== undefined) {
+    headers[REQUEST_TIMEOUT_HEADER] = String(
+      Math.max(0, context.deadline - Date.now())
+    );
   }
 
   if (buildInfo.deploymentId) {
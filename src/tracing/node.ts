@@ -0,0 +1,10 @@
+/**
+ * Node.js 上下文存储安装
+ *
+ * 由 Node.js 入口以副作用方式导入；Edge 入口不导入本模块
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { installContextStorage } from "./storage";
+
+installContextStorage(() => new AsyncLocalStorage());
@@ -0,0 +1,163 @@
+/**
+ * 路由模板模块
+ *
+ * span 名称、访问日志、指标等按路径聚合的场景需使用路由模板（如 `/api/users/[id]`），
+ * 而不是带 id 的原始路径，避免基数爆炸
+ */
+
+export type RouteParams = Record<string, string | string[] | undefined>;
+
+export interface RouteOptions {
+  /** 路由模板（如 "/api/users/[id]"），优先级最高 */
+  route?: string;
+  /**
+   * 没有模板且无法从 params 推断时的路径规范化
+   *
+   * 默认使用 normalizeRoutePath 替换 id / UUID / hash，传 false 使用原始路径
+   */
+  normalizePath?: false | ((path: string) => string);
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const NUMERIC_PATTERN = /^\d+$/;
+const HEX_HASH_PATTERN = /^[0-9a-f]{16,}$/i;
+// nanoid / cuid / Optima trace_id 等：较长且同时包含字母与数字
+const OPAQUE_ID_PATTERN = /^(?=.*\d)(?=.*[a-z])[\w-]{16,}$/i;
+
+/**
+ * 将路径中的 id、UUID、hash 段替换为占位符
+ *
+ * @example
+ * normalizeRoutePath('/api/users/42/orders/8f2a3c4d-…');
+ * // => '/api/users/[id]/orders/[uuid]'
+ */
+export function normalizeRoutePath(path: string): string {
+  return path
+    .split("/")
+    .map((segment) => {
+      if (!segment) return segment;
+      if (NUMERIC_PATTERN.test(segment)) return "[id]";
+      if (UUID_PATTERN.test(segment)) return "[uuid]";
+      if (HEX_HASH_PATTERN.test(segment)) return "[hash]";
+      if (OPAQUE_ID_PATTERN.test(segment)) return "[id]";
+      return segment;
+    })
+    .join("/");
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * 根据 Next.js 动态段参数推断路由模板
+ *
+ * 单个参数替换为 `[name]`，catch-all 参数替换为 `[...name]`；无法对应时返回 undefined
+ *
+ * @example
+ * inferRouteFromParams('/api/users/42', { id: '42' }); // => '/api/users/[id]'
+ * inferRouteFromParams('/docs/a/b', { slug: ['a', 'b'] }); // => '/docs/[...slug]'
+ */
+export function inferRouteFromParams(
+  path: string,
+  params: RouteParams
+): string | undefined {
+  const rawSegments = path.split("/");
+  const segments = rawSegments.map(decodeSegment);
+  // 起始段下标 -> [占位符, 覆盖的段数]
+  const replacements = new Map<number, [string, number]>();
+  const used = new Set<number>();
+
+  const tryReplace = (start: number, values: string[], label: string) => {
+    const range = values.map((_, i) => start + i);
+    if (
+      range.some((index, i) => used.has(index) || segments[index] !== values[i])
+    ) {
+      return false;
+    }
+    replacements.set(start, [label, values.length]);
+    for (const index of range) used.add(index);
+    return true;
+  };
+
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+
+    if (Array.isArray(value)) {
+      // catch-all 段总在末尾，从后往前匹配
+      for (let start = segments.length - value.length; start > 0; start--) {
+        if (tryReplace(start, value, `[...${name}]`)) break;
+      }
+    } else {
+      for (let start = 1; start < segments.length; start++) {
+        if (tryReplace(start, [value], `[${name}]`)) break;
+      }
+    }
+  }
+
+  if (replacements.size === 0) {
+    return undefined;
+  }
+
+  const route: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const replacement = replacements.get(i);
+    if (replacement) {
+      route.push(replacement[0]);
+      i += replacement[1] - 1;
+    } else {
+      route.push(rawSegments[i]);
+    }
+  }
+  return route.join("/");
+}
+
+/**
+ * 解析请求的路由模板
+ *
+ * 优先级：`options.route` > 从 params 推断 > `normalizePath` > 原始路径
+ */
+export function resolveRoute(
+  path: string,
+  options: RouteOptions,
+  params?: RouteParams
+): string {
+  if (options.route) {
+    return options.route;
+  }
+  if (params) {
+    const inferred = inferRouteFromParams(path, params);
+    if (inferred) return inferred;
+  }
+  if (options.normalizePath === false) {
+    return path;
+  }
+  return (options.normalizePath ?? normalizeRoutePath)(path);
+}
+
+/**
+ * 读取 App Router route handler 第二个参数中的 params
+ *
+ * Next.js 15 起 params 为 Promise
+ */
+export async function getRouteParams(
+  handlerContext: unknown
+): Promise<RouteParams | undefined> {
+  const params = (handlerContext as { params?: unknown } | undefined)?.params;
+  if (!params || typeof params !== "object") {
+    return undefined;
+  }
+  try {
+    const resolved = await (params as RouteParams | Promise<RouteParams>);
+    return resolved && typeof resolved === "object" ? resolved : undefined;
+  } catch {
+    return undefined;
+  }
+}
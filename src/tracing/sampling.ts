@@ -0,0 +1,159 @@
+/**
+ * 采样模块
+ *
+ * 请求入口（head-based）决定是否采样，决策写入 TraceContext 并随
+ * `traceparent` / `X-Trace-Sampled` 传递给下游
+ */
+
+import { toW3CTraceId } from "./w3c";
+
+export interface SamplingInput {
+  traceId: string;
+  method: string;
+  path: string;
+}
+
+/**
+ * 采样器：返回 true 表示采样
+ */
+export type Sampler = (input: SamplingInput) => boolean;
+
+/**
+ * 采样配置
+ *
+ * - `"always"` / `"never"`
+ * - `number`：采样比例（0 ~ 1），按 trace_id 确定性采样
+ * - `{ ratio }`：同上
+ * - `{ rateLimit }`：每秒最多采样的请求数
+ * - 自定义采样器函数
+ */
+export type SamplerConfig =
+  | "always"
+  | "never"
+  | number
+  | { ratio: number }
+  | { rateLimit: number }
+  | Sampler;
+
+export interface SamplingRule {
+  /** HTTP 方法（不区分大小写），不填匹配所有 */
+  method?: string | string[];
+  /** 路径：字符串为前缀匹配，正则为完整匹配规则 */
+  path?: string | RegExp;
+  sampler: SamplerConfig;
+}
+
+export interface RuleSamplerOptions {
+  /** 按顺序匹配，第一个命中的规则生效 */
+  rules: SamplingRule[];
+  /** 未命中任何规则时使用（默认 "always"） */
+  fallback?: SamplerConfig;
+}
+
+/**
+ * 按 trace_id 确定性比例采样
+ *
+ * 同一 trace 在所有服务上得到相同结果
+ */
+function ratioSampler(ratio: number): Sampler {
+  const bounded = Math.min(Math.max(ratio, 0), 1);
+  const threshold = Math.floor(bounded * 0xffffffff);
+
+  return ({ traceId }) => {
+    if (bounded >= 1) return true;
+    if (bounded <= 0) return false;
+    // W3C trace-id 第 8~16 位对应 trace_id 的随机部分
+    const value = parseInt(toW3CTraceId(traceId).substring(8, 16), 16);
+    return value < threshold;
+  };
+}
+
+/**
+ * 令牌桶限速采样
+ */
+function rateLimitedSampler(perSecond: number): Sampler {
+  const capacity = Math.max(perSecond, 1);
+  let tokens = capacity;
+  let lastRefill = Date.now();
+
+  return () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * perSecond);
+    lastRefill = now;
+
+    if (tokens >= 1) {
+      tokens -= 1;
+      return true;
+    }
+    return false;
+  };
+}
+
+/**
+ * 根据配置创建采样器
+ *
+ * @example
+ * createSampler(0.1);               // 10% 采样
+ * createSampler({ rateLimit: 20 }); // 每秒最多 20 个
+ */
+export function createSampler(config: SamplerConfig): Sampler {
+  if (typeof config === "function") {
+    return config;
+  }
+  if (config === "always") {
+    return () => true;
+  }
+  if (config === "never") {
+    return () => false;
+  }
+  if (typeof config === "number") {
+    return ratioSampler(config);
+  }
+  if ("ratio" in config) {
+    return ratioSampler(config.ratio);
+  }
+  return rateLimitedSampler(config.rateLimit);
+}
+
+function matchesRule(rule: SamplingRule, input: SamplingInput): boolean {
+  if (rule.method) {
+    const methods = Array.isArray(rule.method) ? rule.method : [rule.method];
+    if (!methods.some((m) => m.toUpperCase() === input.method.toUpperCase())) {
+      return false;
+    }
+  }
+
+  if (rule.path !== undefined) {
+    if (typeof rule.path === "string") {
+      return input.path.startsWith(rule.path);
+    }
+    return rule.path.test(input.path);
+  }
+
+  return true;
+}
+
+/**
+ * 创建按方法 / 路径匹配规则的采样器
+ *
+ * @example
+ * const sampler = createRuleSampler({
+ *   rules: [
+ *     { path: '/api/health', sampler: 'never' },
+ *     { method: 'POST', path: '/api/chat', sampler: { rateLimit: 10 } },
+ *   ],
+ *   fallback: 0.05,
+ * });
+ */
+export function createRuleSampler(options: RuleSamplerOptions): Sampler {
+  const rules = options.rules.map((rule) => ({
+    rule,
+    sampler: createSampler(rule.sampler),
+  }));
+  const fallback = createSampler(options.fallback ?? "always");
+
+  return (input) => {
+    const matched = rules.find(({ rule }) => matchesRule(rule, input));
+    return (matched?.sampler ?? fallback)(input);
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Server-Timing 模块
+ *
+ * 记录请求内的 span / 计时器耗时，生成标准 `Server-Timing` header，
+ * 便于浏览器 devtools 与前端查看耗时分布
+ *
+ * @see https://www.w3.org/TR/server-timing/
+ */
+
+import { getCachedBuildInfo } from "../config/build-info";
+import { getTraceContext } from "./context";
+
+export const SERVER_TIMING_HEADER = "Server-Timing";
+
+export interface ServerTimingEntry {
+  name: string;
+  durationMs: number;
+  description?: string;
+}
+
+export interface ServerTimingOptions {
+  /** 最多输出的条目数（不含 total，默认 10），超出时保留耗时最长的 */
+  maxEntries?: number;
+  /** 生产环境是否输出（默认 false），`SERVER_TIMING` 环境变量优先 */
+  enabledInProduction?: boolean;
+}
+
+// RFC 7230 token 以外的字符
+const NON_TOKEN_REGEX = /[^!#$%&'*+\-.^_`|~0-9A-Za-z]/g;
+
+/**
+ * 判断是否输出 Server-Timing
+ *
+ * `SERVER_TIMING=true/false` 环境变量优先；否则生产环境默认关闭
+ */
+export function isServerTimingEnabled(
+  option: boolean | ServerTimingOptions | undefined
+): boolean {
+  if (!option) {
+    return false;
+  }
+
+  const env = process.env.SERVER_TIMING;
+  if (env === "true") return true;
+  if (env === "false") return false;
+
+  const enabledInProduction =
+    typeof option === "object" && option.enabledInProduction === true;
+  return getCachedBuildInfo().environment !== "production" || enabledInProduction;
+}
+
+/**
+ * 在当前请求中记录一条耗时（未启用 Server-Timing 时忽略）
+ */
+export function recordServerTiming(
+  name: string,
+  durationMs: number,
+  description?: string
+): void {
+  getTraceContext().timings?.push({ name, durationMs, description });
+}
+
+/**
+ * 开始计时，返回结束函数
+ *
+ * @example
+ * const stop = startServerTimer('render');
+ * const html = await render();
+ * stop();
+ */
+export function startServerTimer(
+  name: string,
+  description?: string
+): () => number {
+  const timings = getTraceContext().timings;
+  const start = Date.now();
+  let stopped = false;
+
+  return () => {
+    const durationMs = Date.now() - start;
+    if (!stopped) {
+      stopped = true;
+      timings?.push({ name, durationMs, description });
+    }
+    return durationMs;
+  };
+}
+
+function escapeDescription(value: string): string {
+  return value.replace(/["\\]/g, "\\$&");
+}
+
+/**
+ * 生成 `Server-Timing` header 值
+ */
+export function formatServerTiming(
+  entries: ServerTimingEntry[],
+  options: { maxEntries?: number; totalMs?: number } = {}
+): string {
+  const { maxEntries = 10, totalMs } = options;
+
+  // 超出上限时保留耗时最长的条目，保持原有顺序
+  let kept = entries;
+  if (entries.length > maxEntries) {
+    const slowest = new Set(
+      [...entries]
+        .sort((a, b) => b.durationMs - a.durationMs)
+        .slice(0, Math.max(maxEntries, 0))
+    );
+    kept = entries.filter((entry) => slowest.has(entry));
+  }
+
+  const metrics = kept.map((entry) => {
+    const name = entry.name.replace(NON_TOKEN_REGEX, "_") || "span";
+    let metric = `${name};dur=${Number(entry.durationMs.toFixed(2))}`;
+    const description = entry.description ?? (name !== entry.name ? entry.name : undefined);
+    if (description) {
+      metric += `;desc="${escapeDescription(description)}"`;
+    }
+    return metric;
+  });
+
+  if (totalMs !== undefined) {
+    metrics.push(`total;dur=${Number(totalMs.toFixed(2))}`);
+  }
+
+  return metrics.join(", ");
+}
@@ -0,0 +1,312 @@
+/**
+ * Span 模块
+ *
+ * 基于 AsyncLocalStorage 的 span 嵌套：每个 span 拥有自己的 span_id，
+ * 并以当前上下文中的 span 作为父 span
+ */
+
+import {
+  getTraceContext,
+  runWithTraceContext,
+  type TraceContext,
+} from "./context";
+import { generateSpanId, generateTraceId } from "./ids";
+
+export type SpanKind = "internal" | "server" | "client" | "producer" | "consumer";
+
+export type SpanStatusCode = "unset" | "ok" | "error";
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export interface SpanStatus {
+  code: SpanStatusCode;
+  message?: string;
+}
+
+export interface SpanEvent {
+  name: string;
+  /** 毫秒时间戳 */
+  timestamp: number;
+  attributes?: SpanAttributes;
+}
+
+export interface Span {
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  /** 是否采样；未采样的 span 不会交给 span 处理器 */
+  readonly sampled: boolean;
+  /** 毫秒时间戳 */
+  readonly startTime: number;
+  /** 毫秒时间戳，未结束时为 undefined */
+  readonly endTime?: number;
+  readonly attributes: SpanAttributes;
+  readonly status: SpanStatus;
+  readonly events: SpanEvent[];
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): Span;
+  setAttributes(attributes: Record<string, SpanAttributeValue | undefined>): Span;
+  addEvent(name: string, attributes?: SpanAttributes): Span;
+  setStatus(code: SpanStatusCode, message?: string): Span;
+  recordException(error: unknown): Span;
+  /** 结束 span，重复调用无效 */
+  end(endTime?: number): void;
+  isEnded(): boolean;
+  /** 以毫秒计的耗时，未结束时为当前耗时 */
+  durationMs(): number;
+}
+
+/**
+ * Span 处理器：span 结束时被调用（如导出器）
+ */
+export interface SpanProcessor {
+  onEnd(span: Span): void;
+}
+
+// 已注册的 span 处理器挂在 globalThis 上，各入口 bundle 共享
+const PROCESSORS_KEY = Symbol.for("@optima-chat/observability/span-processors");
+
+function getSpanProcessors(): Set<SpanProcessor> {
+  const global = globalThis as { [PROCESSORS_KEY]?: Set<SpanProcessor> };
+  if (!global[PROCESSORS_KEY]) {
+    global[PROCESSORS_KEY] = new Set();
+  }
+  return global[PROCESSORS_KEY];
+}
+
+/**
+ * 注册 span 处理器
+ *
+ * @returns 取消注册函数
+ */
+export function addSpanProcessor(processor: SpanProcessor): () => void {
+  getSpanProcessors().add(processor);
+  return () => {
+    getSpanProcessors().delete(processor);
+  };
+}
+
+/**
+ * 取消注册 span 处理器
+ */
+export function removeSpanProcessor(processor: SpanProcessor): void {
+  getSpanProcessors().delete(processor);
+}
+
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /** 毫秒时间戳（默认当前时间） */
+  startTime?: number;
+  /** 显式指定父上下文（默认当前追踪上下文） */
+  parent?: TraceContext;
+}
+
+/**
+ * 创建并启动 span（不会自动设为当前 span）
+ *
+ * @example
+ * const span = startSpan('db.query', { attributes: { table: 'users' } });
+ * try {
+ *   await db.query(...);
+ * } finally {
+ *   endSpan(span);
+ * }
+ */
+export function startSpan(name: string, options: StartSpanOptions = {}): Span {
+  const parent = options.parent ?? getTraceContext();
+  const timings = parent.timings;
+
+  const attributes: SpanAttributes = { ...options.attributes };
+  const events: SpanEvent[] = [];
+  const status: SpanStatus = { code: "unset" };
+  let endTime: number | undefined;
+
+  const span: Span = {
+    name,
+    kind: options.kind ?? "internal",
+    traceId: parent.traceId || generateTraceId(),
+    spanId: generateSpanId(),
+    parentSpanId: parent.spanId || parent.parentSpanId,
+    sampled: parent.sampled !== false,
+    startTime: options.startTime ?? Date.now(),
+    get endTime() {
+      return endTime;
+    },
+    attributes,
+    get status() {
+      return status;
+    },
+    events,
+
+    setAttribute(key, value) {
+      if (endTime === undefined && value !== undefined) {
+        attributes[key] = value;
+      }
+      return span;
+    },
+
+    setAttributes(values) {
+      for (const [key, value] of Object.entries(values)) {
+        span.setAttribute(key, value);
+      }
+      return span;
+    },
+
+    addEvent(eventName, eventAttributes) {
+      if (endTime === undefined) {
+        events.push({
+          name: eventName,
+          timestamp: Date.now(),
+          attributes: eventAttributes,
+        });
+      }
+      return span;
+    },
+
+    setStatus(code, message) {
+      if (endTime === undefined) {
+        status.code = code;
+        status.message = message;
+      }
+      return span;
+    },
+
+    recordException(error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      span.addEvent("exception", {
+        "exception.type": err.name,
+        "exception.message": err.message,
+        ...(err.stack ? { "exception.stacktrace": err.stack } : {}),
+      });
+      return span;
+    },
+
+    end(time) {
+      if (endTime !== undefined) {
+        return;
+      }
+      endTime = time ?? Date.now();
+
+      // 计入当前请求的 Server-Timing
+      timings?.push({ name: span.name, durationMs: endTime - span.startTime });
+
+      if (!span.sampled) {
+        return;
+      }
+
+      for (const processor of getSpanProcessors()) {
+        try {
+          processor.onEnd(span);
+        } catch {
+          // 处理器异常不影响业务
+        }
+      }
+    },
+
+    isEnded() {
+      return endTime !== undefined;
+    },
+
+    durationMs() {
+      return (endTime ?? Date.now()) - span.startTime;
+    },
+  };
+
+  return span;
+}
+
+/**
+ * 结束 span
+ */
+export function endSpan(span: Span, endTime?: number): void {
+  span.end(endTime);
+}
+
+/**
+ * 获取当前活动的 span
+ */
+export function getActiveSpan(): Span | undefined {
+  return getTraceContext().span;
+}
+
+/**
+ * 获取当前 span_id
+ */
+export function getSpanId(): string | undefined {
+  return getTraceContext().spanId;
+}
+
+/**
+ * 返回以 span 为当前 span 的追踪上下文
+ */
+export function contextWithSpan(
+  span: Span,
+  context: TraceContext = getTraceContext()
+): TraceContext {
+  return {
+    ...context,
+    traceId: span.traceId,
+    spanId: span.spanId,
+    parentSpanId: span.parentSpanId,
+    span,
+  };
+}
+
+/**
+ * 在新的子 span 中运行函数
+ *
+ * 函数结束（或 Promise settle）时自动结束 span，抛出异常时记录 exception
+ * 并将状态设为 error
+ *
+ * @example
+ * const users = await withSpan('db.users.list', async (span) => {
+ *   span.setAttribute('db.table', 'users');
+ *   return db.users.findMany();
+ * });
+ */
+export function withSpan<T>(
+  name: string,
+  fn: (span: Span) => T,
+  options: StartSpanOptions = {}
+): T {
+  const span = startSpan(name, options);
+  const context = contextWithSpan(span, options.parent ?? getTraceContext());
+
+  const fail = (error: unknown) => {
+    span.recordException(error);
+    span.setStatus(
+      "error",
+      error instanceof Error ? error.message : String(error)
+    );
+    span.end();
+  };
+
+  let result: T;
+  try {
+    result = runWithTraceContext(context, () => fn(span));
+  } catch (error) {
+    fail(error);
+    throw error;
+  }
+
+  if (result instanceof Promise) {
+    return result.then(
+      (value) => {
+        span.end();
+        return value;
+      },
+      (error) => {
+        fail(error);
+        throw error;
+      }
+    ) as T;
+  }
+
+  span.end();
+  return result;
+}
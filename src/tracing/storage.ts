@@ -0,0 +1,91 @@
+/**
+ * 上下文存储模块
+ *
+ * 不直接依赖 `node:async_hooks`，Edge 运行时同样可以加载：
+ * - 优先使用 `globalThis.AsyncLocalStorage`（Next.js Edge 运行时提供）
+ * - Node.js 入口会安装 `node:async_hooks` 的 AsyncLocalStorage
+ * - 两者都不可用时退化为同步存储：上下文只在同步调用链中可见
+ *
+ * 存储实例挂在 globalThis 上，各个入口 bundle 共享同一份上下文
+ */
+
+export interface ContextStorage<T> {
+  getStore(): T | undefined;
+  run<R>(store: T, fn: () => R): R;
+}
+
+type AsyncLocalStorageConstructor = new <T>() => ContextStorage<T>;
+
+interface StorageSlot {
+  storage: ContextStorage<unknown>;
+  async: boolean;
+}
+
+const STORAGE_KEY = Symbol.for("@optima-chat/observability/context-storage");
+
+/**
+ * 同步存储：run 期间可见，函数返回（或第一个 await）后恢复
+ */
+function createSyncStorage<T>(): ContextStorage<T> {
+  let current: T | undefined;
+
+  return {
+    getStore: () => current,
+    run<R>(store: T, fn: () => R): R {
+      const previous = current;
+      current = store;
+      try {
+        return fn();
+      } finally {
+        current = previous;
+      }
+    },
+  };
+}
+
+function detectStorage(): StorageSlot {
+  const GlobalAsyncLocalStorage = (
+    globalThis as { AsyncLocalStorage?: AsyncLocalStorageConstructor }
+  ).AsyncLocalStorage;
+
+  if (typeof GlobalAsyncLocalStorage === "function") {
+    return { storage: new GlobalAsyncLocalStorage(), async: true };
+  }
+
+  return { storage: createSyncStorage(), async: false };
+}
+
+function getSlot(): StorageSlot {
+  const global = globalThis as { [STORAGE_KEY]?: StorageSlot };
+  if (!global[STORAGE_KEY]) {
+    global[STORAGE_KEY] = detectStorage();
+  }
+  return global[STORAGE_KEY];
+}
+
+/**
+ * 获取当前使用的上下文存储
+ */
+export function getContextStorage<T>(): ContextStorage<T> {
+  return getSlot().storage as ContextStorage<T>;
+}
+
+/**
+ * 当前存储是否支持跨异步边界传递上下文
+ */
+export function isAsyncContextSupported(): boolean {
+  return getSlot().async;
+}
+
+/**
+ * 安装支持异步上下文的存储（如 `node:async_hooks` 的 AsyncLocalStorage）
+ *
+ * 已有异步存储时不替换，避免不同入口之间上下文不一致
+ */
+export function installContextStorage(factory: () => ContextStorage<unknown>): void {
+  const global = globalThis as { [STORAGE_KEY]?: StorageSlot };
+  if (global[STORAGE_KEY]?.async) {
+    return;
+  }
+  global[STORAGE_KEY] = { storage: factory(), async: true };
+}
@@ -0,0 +1,133 @@
+/**
+ * 流式响应追踪模块
+ *
+ * 流式响应（SSE、LLM 输出）在 handler 返回时只发出了 header，
+ * 需在响应体结束后才能得到真实耗时、首字节时间与字节数
+ */
+
+import { runWithTraceContext, type TraceContext } from "./context";
+
+export interface StreamStats {
+  /** 从请求开始到第一个 chunk 的耗时（毫秒），没有任何输出时省略 */
+  firstByteMs?: number;
+  /** 从请求开始到流结束的耗时（毫秒） */
+  durationMs: number;
+  bytes: number;
+  chunks: number;
+  /** completed：正常结束；aborted：客户端断开；error：生产者出错 */
+  outcome: "completed" | "aborted" | "error";
+  error?: unknown;
+}
+
+const STREAMING_CONTENT_TYPES = new Set([
+  "text/event-stream",
+  "application/x-ndjson",
+  "application/stream+json",
+]);
+
+// Vercel AI SDK 的数据流协议使用 text/plain，通过该 header 标识
+const STREAMING_HEADERS = ["X-Vercel-AI-Data-Stream", "X-Vercel-AI-UI-Message-Stream"];
+
+/**
+ * 判断是否为流式响应（SSE、NDJSON、Vercel AI SDK 数据流）
+ */
+export function isStreamingResponse(response: Response): boolean {
+  if (!response.body) {
+    return false;
+  }
+  const contentType = response.headers
+    .get("Content-Type")
+    ?.split(";")[0]
+    .trim()
+    .toLowerCase();
+  return (
+    (contentType !== undefined && STREAMING_CONTENT_TYPES.has(contentType)) ||
+    STREAMING_HEADERS.some((header) => response.headers.has(header))
+  );
+}
+
+function getChunkSize(chunk: unknown): number {
+  if (typeof chunk === "string") {
+    return new TextEncoder().encode(chunk).byteLength;
+  }
+  if (chunk instanceof ArrayBuffer || ArrayBuffer.isView(chunk)) {
+    return chunk.byteLength;
+  }
+  return 0;
+}
+
+/**
+ * 包装响应体，流结束（完成、客户端断开或出错）后回调统计信息
+ *
+ * 读取原始流时处于请求的追踪上下文中，生产者的 pull 中可以正常打日志、创建子 span
+ *
+ * @param startTime 请求开始时间（毫秒时间戳），耗时均相对该时间计算
+ */
+export function traceResponseStream(
+  response: Response,
+  context: TraceContext,
+  startTime: number,
+  onEnd: (stats: StreamStats) => void
+): Response {
+  if (!response.body) {
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  let firstByteMs: number | undefined;
+  let bytes = 0;
+  let chunks = 0;
+  let ended = false;
+
+  const finish = (outcome: StreamStats["outcome"], error?: unknown) => {
+    if (ended) return;
+    ended = true;
+    onEnd({
+      firstByteMs,
+      durationMs: Date.now() - startTime,
+      bytes,
+      chunks,
+      outcome,
+      ...(error !== undefined ? { error } : {}),
+    });
+  };
+
+  const body = new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        try {
+          const { done, value } = await runWithTraceContext(context, () =>
+            reader.read()
+          );
+          if (done) {
+            controller.close();
+            finish("completed");
+            return;
+          }
+          if (firstByteMs === undefined) {
+            firstByteMs = Date.now() - startTime;
+          }
+          bytes += getChunkSize(value);
+          chunks++;
+          controller.enqueue(value);
+        } catch (error) {
+          controller.error(error);
+          finish("error", error);
+        }
+      },
+      async cancel(reason) {
+        finish("aborted");
+        await runWithTraceContext(context, () => reader.cancel(reason)).catch(
+          () => undefined
+        );
+      },
+    },
+    { highWaterMark: 0 }
+  );
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * 入站追踪 header 校验模块
+ *
+ * 上游 `X-Trace-ID` 会被回写到响应 header 并写入每一行日志，
+ * 需限制长度与字符集，并可只信任来自内部来源的追踪 header
+ */
+
+import { parseTraceId } from "./ids";
+
+/**
+ * 不合法 trace_id 的处理方式
+ *
+ * - `regenerate`：丢弃，生成新的 trace_id（默认）
+ * - `truncate`：去除非法字符并截断到最大长度，结果为空或仍不合法时重新生成
+ * - `preserve`：生成新的 trace_id，原值（去除控制字符后）记录在 `upstreamTraceId`
+ */
+export type InvalidTraceIdPolicy = "regenerate" | "truncate" | "preserve";
+
+export interface TraceHeaderValidationOptions {
+  /** trace_id / span_id 最大长度（默认 128） */
+  maxLength?: number;
+  /** 要求 `X-Trace-ID` 符合 Optima trace_id 格式（见 parseTraceId，默认 false） */
+  strictFormat?: boolean;
+  /** 不合法 trace_id 的处理方式（默认 "regenerate"） */
+  onInvalid?: InvalidTraceIdPolicy;
+}
+
+export interface SanitizedTraceId {
+  /** 可直接使用的 trace_id，undefined 表示需要重新生成 */
+  traceId?: string;
+  /** `preserve` 策略下保留的上游原值 */
+  upstreamTraceId?: string;
+}
+
+export const DEFAULT_TRACE_ID_MAX_LENGTH = 128;
+
+const MAX_TRACESTATE_LENGTH = 512;
+
+// preserve 策略下原值的长度上限
+const MAX_UPSTREAM_TRACE_ID_LENGTH = 256;
+
+const ID_PATTERN = /^[A-Za-z0-9._:-]+$/;
+const INVALID_ID_CHARS = /[^A-Za-z0-9._:-]/g;
+const CONTROL_CHAR = /[\u0000-\u001f\u007f-\u009f]/;
+const CONTROL_CHARS = new RegExp(CONTROL_CHAR.source, "g");
+
+function isValidId(value: string, maxLength: number): boolean {
+  return value.length > 0 && value.length <= maxLength && ID_PATTERN.test(value);
+}
+
+/**
+ * 校验上游 trace_id 并按策略处理不合法值
+ */
+export function sanitizeTraceId(
+  value: string | null | undefined,
+  options: TraceHeaderValidationOptions = {}
+): SanitizedTraceId {
+  if (!value) {
+    return {};
+  }
+
+  const {
+    maxLength = DEFAULT_TRACE_ID_MAX_LENGTH,
+    strictFormat = false,
+    onInvalid = "regenerate",
+  } = options;
+  const isValid = (id: string) =>
+    isValidId(id, maxLength) && (!strictFormat || parseTraceId(id).valid);
+
+  if (isValid(value)) {
+    return { traceId: value };
+  }
+
+  if (onInvalid === "truncate") {
+    const truncated = value.replace(INVALID_ID_CHARS, "").slice(0, maxLength);
+    return isValid(truncated) ? { traceId: truncated } : {};
+  }
+
+  if (onInvalid === "preserve") {
+    const upstreamTraceId = value
+      .replace(CONTROL_CHARS, "")
+      .slice(0, MAX_UPSTREAM_TRACE_ID_LENGTH);
+    return upstreamTraceId ? { upstreamTraceId } : {};
+  }
+
+  return {};
+}
+
+/**
+ * 校验上游 span_id（不合法时丢弃）
+ */
+export function sanitizeSpanId(
+  value: string | null | undefined,
+  options: TraceHeaderValidationOptions = {}
+): string | undefined {
+  const { maxLength = DEFAULT_TRACE_ID_MAX_LENGTH } = options;
+  return value && isValidId(value, maxLength) ? value : undefined;
+}
+
+/**
+ * 校验上游 tracestate：W3C 规定最长 512 字符，且不含控制字符
+ */
+export function isValidTraceState(value: string): boolean {
+  return value.length <= MAX_TRACESTATE_LENGTH && !CONTROL_CHAR.test(value);
+}
+
+/**
+ * 判断请求来源所需的信息
+ */
+export interface RequestSourceInfo {
+  headers: Headers;
+  /** 对端地址（node:http 适配器取自 socket） */
+  remoteAddress?: string;
+}
+
+function parseIPv4(address: string): number | undefined {
+  const parts = address.split(".");
+  if (parts.length !== 4) return undefined;
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return undefined;
+    const octet = Number(part);
+    if (octet > 255) return undefined;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function normalizeAddress(address: string): string {
+  const trimmed = address.trim().toLowerCase();
+  // IPv4-mapped IPv6（::ffff:10.0.0.1）
+  return trimmed.startsWith("::ffff:") && trimmed.includes(".")
+    ? trimmed.slice(7)
+    : trimmed;
+}
+
+function matchesSource(address: string, source: string): boolean {
+  const [range, bits] = source.split("/");
+  if (bits === undefined) {
+    return address === normalizeAddress(range);
+  }
+
+  const ip = parseIPv4(address);
+  const base = parseIPv4(range);
+  const prefix = Number(bits);
+  if (ip === undefined || base === undefined || !(prefix >= 0 && prefix <= 32)) {
+    return false;
+  }
+  const size = 2 ** (32 - prefix);
+  return Math.floor(ip / size) === Math.floor(base / size);
+}
+
+export interface RequestSourceOptions {
+  /**
+   * 没有 socket 地址时是否使用 `X-Forwarded-For` 的最后一项（默认 false）
+   *
+   * 仅当服务只能经由会追加该 header 的可信代理访问时才可开启；
+   * 直接暴露时客户端可以任意伪造该 header
+   */
+  trustForwardedFor?: boolean;
+}
+
+/**
+ * 获取请求的对端地址
+ *
+ * 优先使用 socket 地址；没有时仅在 `trustForwardedFor` 开启后
+ * 取 `X-Forwarded-For` 的最后一项（由最近一跳可信代理追加）
+ */
+export function getRequestSourceAddress(
+  request: RequestSourceInfo,
+  options: RequestSourceOptions = {}
+): string | undefined {
+  if (request.remoteAddress) {
+    return normalizeAddress(request.remoteAddress);
+  }
+  if (!options.trustForwardedFor) {
+    return undefined;
+  }
+  const forwardedFor = request.headers.get("X-Forwarded-For");
+  const last = forwardedFor?.split(",").pop()?.trim();
+  return last ? normalizeAddress(last) : undefined;
+}
+
+/**
+ * 创建可信来源判断函数
+ *
+ * 支持单个 IP（IPv4 / IPv6）与 IPv4 CIDR。withTracing 拿不到 socket 地址，
+ * 部署在可信代理之后时需开启 `trustForwardedFor`，否则所有请求都不受信任
+ *
+ * @example
+ * withTracing(handler, {
+ *   serviceName: 'agentic-chat',
+ *   trustUpstreamHeaders: createTrustedSourceMatcher(['10.0.0.0/8', '127.0.0.1'], {
+ *     trustForwardedFor: true,
+ *   }),
+ * });
+ */
+export function createTrustedSourceMatcher(
+  sources: string[],
+  options: RequestSourceOptions = {}
+): (request: RequestSourceInfo) => boolean {
+  const normalized = sources.map((source) => source.trim().toLowerCase());
+
+  return (request) => {
+    const address = getRequestSourceAddress(request, options);
+    return (
+      address !== undefined &&
+      normalized.some((source) => matchesSource(address, source))
+    );
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * W3C Trace Context 模块
+ *
+ * 解析与生成 `traceparent` / `tracestate`，并在 Optima trace_id 与
+ * W3C 32 位 hex trace-id 之间做确定性映射
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ */
+
+import { parseTraceId } from "./ids";
+
+// Header 常量
+export const TRACEPARENT_HEADER = "traceparent";
+export const TRACESTATE_HEADER = "tracestate";
+
+/** trace-flags 中的 sampled 位 */
+export const TRACE_FLAG_SAMPLED = 0x01;
+
+/**
+ * 同时存在 Optima header 与 W3C header 时以哪一方为准
+ *
+ * - `optima`: 优先使用 `X-Trace-ID` / `X-Parent-Span-ID`
+ * - `w3c`: 优先使用 `traceparent`
+ */
+export type TraceHeaderPrecedence = "optima" | "w3c";
+
+export interface Traceparent {
+  version: string;
+  /** 32 位小写 hex */
+  traceId: string;
+  /** 16 位小写 hex */
+  parentId: string;
+  traceFlags: number;
+}
+
+const TRACEPARENT_REGEX =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+/**
+ * FNV-1a 32 位哈希（同步、无依赖，Edge 运行时同样可用）
+ */
+function fnv1a(input: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 将任意字符串确定性地哈希为指定长度的 hex
+ */
+function hashHex(input: string, length: number): string {
+  let out = "";
+  let seed = 0x811c9dc5;
+  while (out.length < length) {
+    const hash = fnv1a(input, seed);
+    out += hash.toString(16).padStart(8, "0");
+    seed = (seed + 0x9e3779b9) >>> 0;
+  }
+  return out.substring(0, length);
+}
+
+/**
+ * 解析 `traceparent` header
+ *
+ * 格式非法（含大写 hex，W3C 规范要求小写）或 trace-id / parent-id 全零时返回 undefined
+ */
+export function parseTraceparent(value: string | null | undefined): Traceparent | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const match = TRACEPARENT_REGEX.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, parentId, flags, rest] = match;
+
+  // version ff 非法；version 00 不允许有额外字段
+  if (version === "ff" || (version === "00" && rest)) {
+    return undefined;
+  }
+
+  if (traceId === INVALID_TRACE_ID || parentId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+
+  return {
+    version,
+    traceId,
+    parentId,
+    traceFlags: parseInt(flags, 16),
+  };
+}
+
+/**
+ * 生成 `traceparent` header 值
+ */
+export function formatTraceparent(
+  traceId: string,
+  spanId: string,
+  traceFlags: number = TRACE_FLAG_SAMPLED
+): string {
+  const flags = (traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${toW3CTraceId(traceId)}-${toW3CSpanId(spanId)}-${flags}`;
+}
+
+/**
+ * 将 Optima trace_id 映射为 W3C trace-id（32 位 hex）
+ *
+ * - 已是 32 位 hex：原样返回（小写）
+ * - 标准格式 `{timestamp_hex}-{random_hex}-{service_short}`：
+ *   `timestamp(8) + random(12) + service(12)`，service 非 12 位 hex 时取其哈希
+ * - 其他任意字符串：整体哈希
+ *
+ * 映射是确定性的，同一 trace_id 在所有服务中得到相同的 W3C trace-id
+ */
+export function toW3CTraceId(traceId: string): string {
+  const lower = traceId.toLowerCase();
+  if (/^[0-9a-f]{32}$/.test(lower) && lower !== INVALID_TRACE_ID) {
+    return lower;
+  }
+
+  const parsed = parseTraceId(traceId);
+  const parts = traceId.split("-");
+  if (
+    parsed.valid &&
+    /^[0-9a-f]{1,8}$/.test(parts[0]) &&
+    /^[0-9a-f]{12}$/.test(parsed.random || "")
+  ) {
+    const service = parsed.serviceShort || "";
+    const serviceHex = /^[0-9a-f]{12}$/.test(service)
+      ? service
+      : hashHex(service, 12);
+    const result = `${parts[0].padStart(8, "0")}${parsed.random}${serviceHex}`;
+    if (result !== INVALID_TRACE_ID) {
+      return result;
+    }
+  }
+
+  return hashHex(traceId, 32);
+}
+
+/**
+ * 将 W3C trace-id 映射为 Optima trace_id
+ *
+ * 格式: `{8 hex}-{12 hex}-{12 hex}`，可被 `parseTraceId` 解析，
+ * 且经 `toW3CTraceId` 可还原为原始 W3C trace-id
+ */
+export function fromW3CTraceId(w3cTraceId: string): string {
+  const lower = w3cTraceId.toLowerCase();
+  return `${lower.substring(0, 8)}-${lower.substring(8, 20)}-${lower.substring(20, 32)}`;
+}
+
+/**
+ * 将任意 span / request 标识映射为 W3C parent-id（16 位 hex）
+ */
+export function toW3CSpanId(spanId: string): string {
+  const lower = spanId.toLowerCase();
+  if (/^[0-9a-f]{16}$/.test(lower) && lower !== INVALID_SPAN_ID) {
+    return lower;
+  }
+  return hashHex(spanId, 16);
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { normalizeLogPath, withTracing } from "../src/tracing";
+import { withNodeTracing } from "../src/adapters";
+import { createLogger } from "../src/logging";
+import { captureLogs, extraOf } from "./helpers";
+
+describe("normalizeLogPath", () => {
+  it("should collapse slashes and drop trailing slash", () => {
+    expect(normalizeLogPath("/api//users/")).toBe("/api/users");
+    expect(normalizeLogPath("/")).toBe("/");
+    expect(normalizeLogPath("")).toBe("/");
+  });
+});
+
+describe("withTracing accessLog", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const logger = createLogger({ serviceName: "test" });
+
+  it("should not log by default", async () => {
+    const lines = captureLogs();
+    const handler = withTracing(async () => Response.json({ ok: true }), {
+      serviceName: "test",
+      logger,
+    });
+
+    await handler(new Request("http://localhost/api"));
+
+    expect(lines).toHaveLength(0);
+  });
+
+  it("should log request details in the trace context", async () => {
+    const lines = captureLogs();
+    const handler = withTracing(
+      async () =>
+        new Response("hello", { headers: { "Content-Length": "5" } }),
+      { serviceName: "test", logger, accessLog: true }
+    );
+
+    const response = await handler(
+      new Request("http://localhost/api/users/?page=2", {
+        headers: { "User-Agent": "vitest", "X-Trace-ID": "upstream-1" },
+      })
+    );
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({
+      level: "info",
+      message: "Request completed",
+      traceId: "upstream-1",
+      requestId: response.headers.get("X-Request-ID"),
+      extra: {
+        method: "GET",
+        path: "/api/users",
+        status: 200,
+        responseSize: 5,
+        userAgent: "vitest",
+        upstreamTraceId: "upstream-1",
+      },
+    });
+    expect(extraOf(lines[0]).durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should omit upstream trace id for new traces", async () => {
+    const lines = captureLogs();
+    const handler = withTracing(async () => new Response(null), {
+      serviceName: "test",
+      logger,
+      accessLog: true,
+    });
+
+    await handler(new Request("http://localhost/api"));
+
+    expect(lines[0].traceId).toBeDefined();
+    expect(extraOf(lines[0]).upstreamTraceId).toBeUndefined();
+  });
+
+  it("should pick level by status class", async () => {
+    const lines = captureLogs();
+    const handler = withTracing(
+      async (request: Request) =>
+        new Response(null, {
+          status: Number(new URL(request.url).searchParams.get("status")),
+        }),
+      {
+        serviceName: "test",
+        logger,
+        accessLog: { levels: { "2xx": "debug", "4xx": "error" } },
+      }
+    );
+
+    for (const status of [200, 302, 404, 503]) {
+      await handler(new Request(`http://localhost/api?status=${status}`));
+    }
+
+    expect(lines.map((line) => [extraOf(line).status, line.level])).toEqual([
+      [302, "info"],
+      [404, "error"],
+      [503, "error"],
+    ]);
+  });
+
+  it("should skip excluded paths", async () => {
+    const lines = captureLogs();
+    const handler = withTracing(async () => new Response("ok"), {
+      serviceName: "test",
+      logger,
+      accessLog: { exclude: ["/api/health", /^\/_next\//] },
+    });
+
+    await handler(new Request("http://localhost/api/health"));
+    await handler(new Request("http://localhost/_next/static/app.js"));
+    await handler(new Request("http://localhost/api/users"));
+
+    expect(lines.map((line) => extraOf(line).path)).toEqual(["/api/users"]);
+  });
+});
+
+describe("withNodeTracing accessLog", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should log when the response finishes", async () => {
+    const lines = captureLogs();
+    const server = createServer(
+      withNodeTracing(
+        (_req, res) => {
+          res.statusCode = 404;
+          res.setHeader("Content-Length", "9");
+          res.end("not found");
+        },
+        {
+          serviceName: "test",
+          logger: createLogger({ serviceName: "test" }),
+          accessLog: true,
+        }
+      )
+    );
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/api/missing`);
+      await response.text();
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({
+        level: "warn",
+        traceId: response.headers.get("X-Trace-ID"),
+        extra: { method: "GET", path: "/api/missing", status: 404, responseSize: 9 },
+      });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,347 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import Fastify from "fastify";
+import {
+  withNodeTracing,
+  createExpressTracingMiddleware,
+  createFastifyTracingPlugin,
+  withPagesApiTracing,
+  withActionTracing,
+} from "../src/adapters";
+import {
+  getTraceId,
+  getRequestId,
+  getActiveSpan,
+  withSpan,
+  addSpanProcessor,
+  type Span,
+} from "../src/tracing";
+import { configureLogger, createLogger } from "../src/logging";
+import { captureLogs, extraOf } from "./helpers";
+
+const nextHeaders = vi.hoisted(() => ({ current: new Headers() }));
+
+vi.mock("next/headers", () => ({
+  headers: async () => nextHeaders.current,
+}));
+
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}`;
+}
+
+async function close(server: Server): Promise<void> {
+  await new Promise((resolve) => server.close(resolve));
+}
+
+describe("withNodeTracing", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should add tracing headers and context", async () => {
+    const server = createServer(
+      withNodeTracing(
+        async (_req, res) => {
+          await new Promise((r) => setTimeout(r, 1));
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ traceId: getTraceId(), requestId: getRequestId() }));
+        },
+        { serviceName: "test-service", serviceShort: "test" }
+      )
+    );
+    const url = await listen(server);
+
+    try {
+      const response = await fetch(`${url}/api/users?x=1`, {
+        headers: { "X-Trace-ID": "upstream-trace-123" },
+      });
+      const body = await response.json();
+
+      expect(response.headers.get("X-Trace-ID")).toBe("upstream-trace-123");
+      expect(body.traceId).toBe("upstream-trace-123");
+      expect(response.headers.get("X-Request-ID")).toBe(body.requestId);
+      expect(body.requestId).toMatch(/^test_/);
+      expect(response.headers.get("X-Response-Time")).toMatch(/ms$/);
+      expect(response.headers.get("X-Served-By")).toContain("test-service");
+    } finally {
+      await close(server);
+    }
+  });
+
+  it("should return traced 500 on errors", async () => {
+    const errors = captureLogs(["error"]);
+
+    const server = createServer(
+      withNodeTracing(
+        async () => {
+          throw new Error("boom");
+        },
+        { serviceName: "test", logger: createLogger({ serviceName: "test" }) }
+      )
+    );
+    const url = await listen(server);
+
+    try {
+      const response = await fetch(`${url}/api`);
+      const body = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(body.traceId).toBe(response.headers.get("X-Trace-ID"));
+      expect(errors[0].traceId).toBe(body.traceId);
+    } finally {
+      await close(server);
+    }
+  });
+
+  it("should emit Server-Timing", async () => {
+    const server = createServer(
+      withNodeTracing(
+        async (_req, res) => {
+          await withSpan("db", async () => {});
+          res.end("ok");
+        },
+        { serviceName: "test", serverTiming: true }
+      )
+    );
+    const url = await listen(server);
+
+    try {
+      const response = await fetch(`${url}/api`);
+      expect(response.headers.get("Server-Timing")).toMatch(/^db;dur=.*total;dur=/);
+    } finally {
+      await close(server);
+    }
+  });
+});
+
+describe("createExpressTracingMiddleware", () => {
+  it("should trace express routes", async () => {
+    const app = express();
+    app.use(createExpressTracingMiddleware({ serviceName: "express-svc", serviceShort: "exp" }));
+    app.get("/api/users/:id", async (_req, res) => {
+      await new Promise((r) => setTimeout(r, 1));
+      res.json({ traceId: getTraceId() });
+    });
+
+    const server = createServer(app);
+    const url = await listen(server);
+
+    try {
+      const response = await fetch(`${url}/api/users/1`);
+      const body = await response.json();
+
+      expect(body.traceId).toContain("-exp");
+      expect(response.headers.get("X-Trace-ID")).toBe(body.traceId);
+      expect(response.headers.get("X-Request-ID")).toMatch(/^exp_/);
+      expect(response.headers.get("X-Served-By")).toContain("express-svc");
+    } finally {
+      await close(server);
+    }
+  });
+});
+
+describe("createFastifyTracingPlugin", () => {
+  it("should trace fastify routes", async () => {
+    const app = Fastify();
+    await app.register(
+      createFastifyTracingPlugin({ serviceName: "fastify-svc", serviceShort: "fst" })
+    );
+    app.get("/api/users/:id", async () => {
+      await new Promise((r) => setTimeout(r, 1));
+      return { traceId: getTraceId() };
+    });
+
+    const url = await app.listen({ port: 0, host: "127.0.0.1" });
+
+    try {
+      const response = await fetch(`${url}/api/users/1`, {
+        headers: { "X-Trace-ID": "upstream-trace-456" },
+      });
+      const body = await response.json();
+
+      expect(body.traceId).toBe("upstream-trace-456");
+      expect(response.headers.get("X-Trace-ID")).toBe("upstream-trace-456");
+      expect(response.headers.get("X-Request-ID")).toMatch(/^fst_/);
+      expect(response.headers.get("X-Response-Time")).toMatch(/ms$/);
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe("withPagesApiTracing", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should trace API routes and resolve after the handler", async () => {
+    let resolved = false;
+    const handler = withPagesApiTracing(
+      async (_req, res) => {
+        await new Promise((r) => setTimeout(r, 1));
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ traceId: getTraceId() }));
+      },
+      { serviceName: "pages-svc", serviceShort: "pg" }
+    );
+    const server = createServer((req, res) => {
+      handler(req, res).then(() => {
+        resolved = true;
+      });
+    });
+    const url = await listen(server);
+
+    try {
+      const response = await fetch(`${url}/api/users`, {
+        headers: { "X-Trace-ID": "upstream-trace-789" },
+      });
+      const body = await response.json();
+
+      expect(resolved).toBe(true);
+      expect(body.traceId).toBe("upstream-trace-789");
+      expect(response.headers.get("X-Trace-ID")).toBe("upstream-trace-789");
+      expect(response.headers.get("X-Request-ID")).toMatch(/^pg_/);
+    } finally {
+      await close(server);
+    }
+  });
+
+  it("should return traced 500 on errors", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const server = createServer(
+      withPagesApiTracing(
+        async () => {
+          throw new Error("boom");
+        },
+        { serviceName: "test", logger: createLogger({ serviceName: "test" }) }
+      )
+    );
+    const url = await listen(server);
+
+    try {
+      const response = await fetch(`${url}/api`);
+      const body = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(body.traceId).toBe(response.headers.get("X-Trace-ID"));
+    } finally {
+      await close(server);
+    }
+  });
+});
+
+describe("withActionTracing", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    nextHeaders.current = new Headers();
+  });
+
+  it("should continue the upstream trace from next/headers", async () => {
+    nextHeaders.current = new Headers({ "X-Trace-ID": "upstream-action-trace" });
+    const ended: Span[] = [];
+    const unregister = addSpanProcessor({ onEnd: (span) => ended.push(span) });
+
+    try {
+      const action = withActionTracing(
+        "createOrder",
+        async (id: number) => ({ id, traceId: getTraceId(), span: getActiveSpan()?.name }),
+        { serviceName: "test" }
+      );
+
+      const result = await action(1);
+
+      expect(result).toEqual({
+        id: 1,
+        traceId: "upstream-action-trace",
+        span: "action createOrder",
+      });
+      expect(ended[0].attributes["next.action"]).toBe("createOrder");
+      expect(ended[0].status.code).toBe("unset");
+    } finally {
+      unregister();
+    }
+  });
+
+  it("should log and rethrow errors", async () => {
+    const errors = captureLogs(["error"]);
+
+    const action = withActionTracing(
+      "deleteOrder",
+      async () => {
+        throw new Error("boom");
+      },
+      { serviceName: "test", logger: createLogger({ serviceName: "test" }) }
+    );
+
+    await expect(action()).rejects.toThrow("boom");
+    expect(extraOf(errors[0]).action).toBe("deleteOrder");
+    expect(errors[0].traceId).toBeDefined();
+  });
+
+  it("should not log redirects as errors", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const redirect = Object.assign(new Error("NEXT_REDIRECT"), {
+      digest: "NEXT_REDIRECT;replace;/orders;307;",
+    });
+
+    const action = withActionTracing(
+      "submit",
+      async () => {
+        throw redirect;
+      },
+      { serviceName: "test", logger: createLogger({ serviceName: "test" }) }
+    );
+
+    await expect(action()).rejects.toBe(redirect);
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("default logger", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should resolve the logger configured after wrapping", async () => {
+    const errors = captureLogs(["error"]);
+
+    const server = createServer(
+      withNodeTracing(
+        async () => {
+          throw new Error("boom");
+        },
+        { serviceName: "late-node" }
+      )
+    );
+    configureLogger({ serviceName: "late-node" });
+    const url = await listen(server);
+
+    try {
+      await fetch(`${url}/api`);
+      expect(errors[0].service).toBe("late-node");
+    } finally {
+      await close(server);
+    }
+  });
+
+  it("should resolve the logger configured after wrapping a Server Action", async () => {
+    const errors = captureLogs(["error"]);
+
+    const action = withActionTracing(
+      "cancelOrder",
+      async () => {
+        throw new Error("boom");
+      },
+      { serviceName: "late-action" }
+    );
+    configureLogger({ serviceName: "late-action" });
+
+    await expect(action()).rejects.toThrow("boom");
+    expect(errors[0].service).toBe("late-action");
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  parseBaggage,
+  formatBaggage,
+  getBaggage,
+  getBaggageValue,
+  withBaggage,
+  getTraceHeaders,
+  parseTraceContextFromHeaders,
+  runWithTraceContext,
+  withTracing,
+  BAGGAGE_MAX_MEMBERS,
+  BAGGAGE_MAX_BYTES,
+} from "../src/tracing";
+import { createLogger } from "../src/logging";
+
+describe("parseBaggage", () => {
+  it("should parse members", () => {
+    expect(
+      parseBaggage("tenantId=shop-42, tier = pro;ttl=60,name=J%C3%BCrgen")
+    ).toEqual({ tenantId: "shop-42", tier: "pro", name: "Jürgen" });
+  });
+
+  it("should ignore invalid members", () => {
+    expect(parseBaggage("=x,bad key=1,ok=1,enc=%E0%A4%A")).toEqual({ ok: "1" });
+  });
+
+  it("should enforce member limit", () => {
+    const header = Array.from({ length: 70 }, (_, i) => `k${i}=v`).join(",");
+    expect(Object.keys(parseBaggage(header))).toHaveLength(BAGGAGE_MAX_MEMBERS);
+  });
+
+  it("should enforce byte limit without truncating members", () => {
+    const big = "x".repeat(5000);
+    const result = parseBaggage(`a=${big},b=${big},c=1`);
+
+    expect(result.a).toBe(big);
+    expect(result.b).toBeUndefined();
+  });
+});
+
+describe("formatBaggage", () => {
+  it("should percent-encode values", () => {
+    expect(formatBaggage({ tenant: "a b", tier: "pro" })).toBe(
+      "tenant=a%20b,tier=pro"
+    );
+  });
+
+  it("should drop members beyond limits", () => {
+    const big = "x".repeat(5000);
+    const header = formatBaggage({ a: big, b: big, c: "1" })!;
+
+    expect(header.length).toBeLessThanOrEqual(BAGGAGE_MAX_BYTES);
+    expect(parseBaggage(header)).toEqual({ a: big, c: "1" });
+  });
+
+  it("should return undefined when empty", () => {
+    expect(formatBaggage({})).toBeUndefined();
+  });
+});
+
+describe("baggage context", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should parse baggage from headers", () => {
+    const ctx = parseTraceContextFromHeaders(
+      new Headers({ baggage: "tenantId=shop-42" })
+    );
+    expect(ctx.baggage).toEqual({ tenantId: "shop-42" });
+  });
+
+  it("should merge and remove entries with withBaggage", () => {
+    runWithTraceContext({ traceId: "t", baggage: { a: "1", b: "2" } }, () => {
+      withBaggage({ b: undefined, c: "3" }, () => {
+        expect(getBaggage()).toEqual({ a: "1", c: "3" });
+        expect(getBaggageValue("c")).toBe("3");
+        expect(getTraceHeaders().baggage).toBe("a=1,c=3");
+      });
+      expect(getBaggage()).toEqual({ a: "1", b: "2" });
+    });
+  });
+
+  it("should carry upstream baggage through withTracing", async () => {
+    let downstream: string | undefined;
+    const handler = withTracing(
+      async () => {
+        downstream = getTraceHeaders().baggage;
+        return Response.json({ ok: true });
+      },
+      { serviceName: "test" }
+    );
+
+    await handler(
+      new Request("http://localhost/api", {
+        headers: { baggage: "tenantId=shop-42" },
+      })
+    );
+
+    expect(downstream).toBe("tenantId=shop-42");
+  });
+
+  it("should copy selected baggage keys into logs", () => {
+    let output = "";
+    vi.spyOn(console, "info").mockImplementation((msg) => {
+      output = msg;
+    });
+    const logger = createLogger({ serviceName: "test", baggageKeys: ["tenantId"] });
+
+    withBaggage({ tenantId: "shop-42", secret: "x" }, () => {
+      logger.info("hello");
+    });
+
+    expect(JSON.parse(output).baggage).toEqual({ tenantId: "shop-42" });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { build } from "tsup";
+
+// 按发布配置（splitting: false）构建子路径入口，各 bundle 拥有独立的模块级状态
+const ENTRIES = ["tracing", "exporter", "logging"] as const;
+
+type Entry = (typeof ENTRIES)[number];
+
+let outDir: string;
+let server: Server;
+let collectorUrl: string;
+let received = 0;
+
+function importBundle<T>(entry: Entry): Promise<T> {
+  return import(pathToFileURL(join(outDir, entry, "index.js")).href) as Promise<T>;
+}
+
+beforeAll(async () => {
+  outDir = mkdtempSync(join(tmpdir(), "observability-bundles-"));
+  await build({
+    config: false,
+    entry: Object.fromEntries(ENTRIES.map((entry) => [`${entry}/index`, `src/${entry}/index.ts`])),
+    outDir,
+    format: ["esm"],
+    splitting: false,
+    treeshake: true,
+    silent: true,
+  });
+
+  server = createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      received++;
+      res.end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  collectorUrl = `http://127.0.0.1:${port}/v1/traces`;
+}, 60_000);
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(outDir, { recursive: true, force: true });
+});
+
+describe("built subpath bundles", () => {
+  it("should export spans ended in another bundle", async () => {
+    const exporter = await importBundle<typeof import("../src/exporter")>("exporter");
+    const tracing = await importBundle<typeof import("../src/tracing")>("tracing");
+
+    exporter.configureSpanExport({
+      serviceName: "bundles",
+      url: collectorUrl,
+      flushOnExit: false,
+    });
+    tracing.withSpan("work", () => {});
+    await exporter.shutdownSpanExport();
+
+    expect(received).toBe(1);
+  });
+
+  // 配置全局默认 logger，放在最后避免影响其他用例
+  it("should use the default logger configured in another bundle", async () => {
+    const logging = await importBundle<typeof import("../src/logging")>("logging");
+    const tracing = await importBundle<typeof import("../src/tracing")>("tracing");
+    const lines: string[] = [];
+    vi.spyOn(console, "info").mockImplementation((msg: string) => lines.push(msg));
+    vi.spyOn(console, "error").mockImplementation((msg: string) => lines.push(msg));
+
+    logging.configureLogger({ serviceName: "bundles" });
+    const handler = tracing.withTracing(
+      async () => {
+        throw new Error("boom");
+      },
+      { serviceName: "bundles", accessLog: true }
+    );
+    const response = await handler(new Request("http://localhost/api"));
+    vi.restoreAllMocks();
+
+    expect(response.status).toBe(500);
+    expect(lines).toHaveLength(2);
+  });
+});
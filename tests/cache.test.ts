@@ -0,0 +1,322 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHttpCache, createTracedClient, parseCacheControl } from "../src/http";
+import { addSpanProcessor, runWithTraceContext, type Span } from "../src/tracing";
+import { createLogger } from "../src/logging";
+import { createFetchStub, type FetchStub } from "../src/testing";
+import { captureLogs } from "./helpers";
+
+function collectSpans() {
+  const spans: Span[] = [];
+  const unregister = addSpanProcessor({ onEnd: (span) => spans.push(span) });
+  return { spans, unregister };
+}
+
+function cachedEntry(body: string) {
+  return {
+    status: 200,
+    statusText: "OK",
+    headers: [] as Array<[string, string]>,
+    body: new TextEncoder().encode(body),
+    storedAt: Date.now(),
+    expiresAt: Date.now() + 60_000,
+    vary: {},
+  };
+}
+
+describe("parseCacheControl", () => {
+  it("should parse directives", () => {
+    expect(parseCacheControl('public, max-age=60, s-maxage="120", must-revalidate')).toEqual({
+      maxAge: 60,
+      sMaxAge: 120,
+      noStore: false,
+      noCache: false,
+      private: false,
+      public: true,
+      mustRevalidate: true,
+    });
+    expect(parseCacheControl("no-store, private")).toMatchObject({ noStore: true, private: true });
+    expect(parseCacheControl(null).maxAge).toBeUndefined();
+  });
+});
+
+describe("createHttpCache", () => {
+  it("should evict least recently used entries", () => {
+    const cache = createHttpCache({ maxEntries: 2 });
+    cache.set("a", cachedEntry("a"));
+    cache.set("b", cachedEntry("b"));
+    cache.get("a");
+    cache.set("c", cachedEntry("c"));
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBeDefined();
+    expect(cache.getStats()).toMatchObject({ entries: 2, evictions: 1 });
+  });
+
+  it("should bound the total body size", () => {
+    const cache = createHttpCache({ maxSizeBytes: 10 });
+    cache.set("a", cachedEntry("aaaaaa"));
+    cache.set("b", cachedEntry("bbbbbb"));
+    cache.set("huge", cachedEntry("x".repeat(11)));
+
+    expect(cache.size).toBe(1);
+    expect(cache.get("b")).toBeDefined();
+    expect(cache.getStats().sizeBytes).toBe(6);
+  });
+});
+
+describe("createTracedClient cache", () => {
+  let stub: FetchStub;
+
+  beforeEach(() => {
+    stub = createFetchStub();
+    stub.install();
+  });
+
+  afterEach(() => {
+    stub.restore();
+    vi.restoreAllMocks();
+  });
+
+  it("should serve fresh responses from the cache", async () => {
+    stub.on("GET /config", {
+      headers: { "Cache-Control": "max-age=60" },
+      body: { flags: ["a"] },
+    });
+    const api = createTracedClient("http://config-service", { cache: {} });
+
+    expect(await api.getJson("/config")).toEqual({ flags: ["a"] });
+    expect(await api.getJson("/config")).toEqual({ flags: ["a"] });
+    // 查询参数不同视为不同资源
+    await api.get("/config?v=2");
+
+    expect(stub.requests).toHaveLength(2);
+    expect(api.cache!.getStats()).toMatchObject({ hits: 1, misses: 2, entries: 2 });
+  });
+
+  it("should revalidate stale responses with ETag and Last-Modified", async () => {
+    const lastModified = new Date(0).toUTCString();
+    stub
+      .once("GET /catalog", {
+        headers: { "Cache-Control": "no-cache", ETag: '"v1"', "Last-Modified": lastModified },
+        body: { items: 3 },
+      })
+      .on("GET /catalog", (request) =>
+        request.headers.get("If-None-Match") === '"v1"'
+          ? { status: 304, headers: { "Cache-Control": "max-age=60" } }
+          : { body: { items: 4 } }
+      );
+    const api = createTracedClient("http://commerce", { cache: {} });
+
+    await api.getJson("/catalog");
+    const response = await api.get("/catalog");
+    await api.get("/catalog");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ items: 3 });
+    expect(stub.requests).toHaveLength(2);
+    expect(stub.requests[1].headers.get("If-Modified-Since")).toBe(lastModified);
+    // 304 更新了新鲜期，第三次直接命中
+    expect(api.cache!.getStats()).toMatchObject({ misses: 1, revalidations: 1, hits: 1 });
+  });
+
+  it("should replace the entry when the resource changed", async () => {
+    stub
+      .once("GET /catalog", { headers: { ETag: '"v1"' }, body: { items: 3 } })
+      .on("GET /catalog", { headers: { ETag: '"v2"' }, body: { items: 4 } });
+    const api = createTracedClient("http://commerce", { cache: {} });
+
+    await api.getJson("/catalog");
+    expect(await api.getJson("/catalog")).toEqual({ items: 4 });
+    await api.getJson("/catalog");
+
+    expect(stub.requests[2].headers.get("If-None-Match")).toBe('"v2"');
+  });
+
+  it("should store decoded bodies without encoding headers", async () => {
+    stub.on("GET /catalog", {
+      headers: { "Cache-Control": "max-age=60", "Content-Encoding": "gzip", "Content-Length": "999" },
+      body: "decoded",
+    });
+    const api = createTracedClient("http://commerce", { cache: {} });
+
+    await api.get("/catalog");
+    const cached = await api.get("/catalog");
+
+    expect(cached.headers.has("Content-Encoding")).toBe(false);
+    expect(cached.headers.get("Content-Length")).toBe("7");
+    expect(await cached.text()).toBe("decoded");
+  });
+
+  it("should pass uncacheable responses through without buffering", async () => {
+    const encoder = new TextEncoder();
+    stub.on("GET /events", () => {
+      // 永不结束的响应体：若被缓冲，请求不会返回
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode("first"));
+        },
+      });
+      return new Response(body, { headers: { "Content-Type": "text/plain" } });
+    });
+    const api = createTracedClient("http://commerce", { cache: {} });
+
+    const response = await api.get("/events");
+    const reader = response.body!.getReader();
+    expect(new TextDecoder().decode((await reader.read()).value)).toBe("first");
+    void reader.cancel();
+    expect(api.cache!.size).toBe(0);
+  });
+
+  it("should not buffer responses larger than the cache", async () => {
+    stub
+      .on("GET /declared", {
+        headers: { "Cache-Control": "max-age=60", "Content-Length": "64" },
+        body: "x".repeat(64),
+      })
+      .on("GET /chunked", () => {
+        const chunk = new TextEncoder().encode("y".repeat(8));
+        let sent = 0;
+        const body = new ReadableStream<Uint8Array>({
+          pull(controller) {
+            if (sent++ < 4) controller.enqueue(chunk);
+            else controller.close();
+          },
+        });
+        return new Response(body, { headers: { "Cache-Control": "max-age=60" } });
+      });
+    const api = createTracedClient("http://commerce", { cache: { maxSizeBytes: 16 } });
+
+    expect(await (await api.get("/declared")).text()).toHaveLength(64);
+    expect(await (await api.get("/chunked")).text()).toBe("y".repeat(32));
+    await api.get("/chunked");
+
+    expect(stub.requests).toHaveLength(3);
+    expect(api.cache!.size).toBe(0);
+  });
+
+  it("should not store uncacheable responses", async () => {
+    stub
+      .on("GET /no-store", { headers: { "Cache-Control": "no-store, max-age=60" } })
+      .on("GET /private", { headers: { "Cache-Control": "private, max-age=60" } })
+      .on("GET /plain", { body: "ok" })
+      .on("GET /me", { headers: { "Cache-Control": "max-age=60" }, body: { id: 1 } })
+      .on("GET /errors", { status: 500, headers: { "Cache-Control": "max-age=60" } });
+    const api = createTracedClient("http://user-auth", { cache: {} });
+
+    for (const path of ["/no-store", "/private", "/plain", "/errors"]) {
+      await api.get(path);
+      await api.get(path);
+    }
+    await api.get("/me", { headers: { Authorization: "Bearer a" } });
+    await api.get("/me", { headers: { Authorization: "Bearer a" } });
+
+    expect(stub.requests).toHaveLength(10);
+    expect(api.cache!.size).toBe(0);
+  });
+
+  it("should honour per-call cache modes and Vary", async () => {
+    stub.on("GET /config", {
+      headers: { "Cache-Control": "max-age=60", ETag: '"v1"', Vary: "Accept-Language" },
+      body: "ok",
+    });
+    const api = createTracedClient("http://config-service", { cache: {} });
+
+    await api.get("/config");
+    await api.get("/config", { cache: "no-store" });
+    await api.get("/config", { cache: "no-cache" });
+    await api.get("/config", { headers: { "Accept-Language": "zh-CN" } });
+
+    expect(stub.requests).toHaveLength(4);
+    expect(api.cache!.getStats()).toMatchObject({ bypassed: 1, misses: 3 });
+    expect(stub.requests[1].headers.has("If-None-Match")).toBe(false);
+    expect(stub.requests[2].headers.get("If-None-Match")).toBe('"v1"');
+  });
+
+  it("should coalesce concurrent identical requests", async () => {
+    stub.on("GET /config", {
+      delayMs: 20,
+      headers: { "Cache-Control": "max-age=60" },
+      body: { version: 1 },
+    });
+    const api = createTracedClient("http://config-service", { cache: {} });
+
+    const results = await Promise.all([
+      api.getJson("/config"),
+      api.getJson("/config"),
+      api.getJson("/config"),
+      api.getJson("/config", { headers: { Authorization: "Bearer other" } }),
+    ]);
+
+    expect(results).toEqual(Array(4).fill({ version: 1 }));
+    expect(stub.requests).toHaveLength(2);
+    expect(api.cache!.getStats()).toMatchObject({ coalesced: 2, misses: 2 });
+  });
+
+  it("should not coalesce requests with their own signal or timeout", async () => {
+    stub.on("GET /config", {
+      delayMs: 20,
+      headers: { "Cache-Control": "max-age=60" },
+      body: { version: 1 },
+    });
+    const api = createTracedClient("http://config-service", { cache: {} });
+    const controller = new AbortController();
+
+    const cancelled = api.get("/config", { signal: controller.signal });
+    const others = Promise.all([api.getJson("/config"), api.getJson("/config", { timeoutMs: 1000 })]);
+    controller.abort(new Error("cancelled"));
+
+    await expect(cancelled).rejects.toThrow("cancelled");
+    expect(await others).toEqual([{ version: 1 }, { version: 1 }]);
+    expect(stub.requests).toHaveLength(3);
+  });
+
+  it("should share upstream failures with coalesced callers", async () => {
+    stub.on("GET /config", { delayMs: 10, error: new TypeError("fetch failed") });
+    const api = createTracedClient("http://config-service", { cache: {} });
+
+    const results = await Promise.allSettled([api.get("/config"), api.get("/config")]);
+
+    expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it("should share a cache between clients and skip other methods", async () => {
+    stub
+      .on("GET /config", { headers: { "Cache-Control": "max-age=60" }, body: "ok" })
+      .on("POST /config", { status: 204 });
+    const cache = createHttpCache();
+    const first = createTracedClient("http://config-service", { cache });
+    const second = createTracedClient("http://config-service", { cache });
+
+    await first.get("/config");
+    await second.get("/config");
+    await second.post("/config", {});
+    await second.post("/config", {});
+
+    expect(second.cache).toBe(cache);
+    expect(stub.requests).toHaveLength(3);
+  });
+
+  it("should annotate spans and logs with the cache status", async () => {
+    stub.on("GET /config", { headers: { "Cache-Control": "max-age=60" }, body: "ok" });
+    const lines = captureLogs(["debug"]);
+    const logger = createLogger({ serviceName: "agentic-chat", level: "debug" });
+    const api = createTracedClient("http://config-service", { cache: {} });
+    const { spans, unregister } = collectSpans();
+
+    try {
+      await runWithTraceContext({ traceId: "trace-123" }, async () => {
+        await api.get("/config", { logger });
+        await api.get("/config", { logger });
+      });
+    } finally {
+      unregister();
+    }
+
+    expect(spans.map((span) => span.attributes["http.cache"])).toEqual(["miss", "hit"]);
+    expect(spans[1]).toMatchObject({ name: "HTTP GET", kind: "client", traceId: "trace-123" });
+    expect(spans[1].attributes["http.status_code"]).toBe(200);
+    const hit = lines.find((line) => line.message === "Outbound request served from cache");
+    expect(hit?.extra).toMatchObject({ cache: "hit", host: "config-service", route: "/config" });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  CircuitOpenError,
+  createCircuitBreaker,
+  createTracedClient,
+  getCircuitBreakerSnapshots,
+} from "../src/http";
+import { createHealthHandler, getDebugInfo } from "../src/diagnostics";
+import { runWithTraceContext } from "../src/tracing";
+import { configureLogger } from "../src/logging";
+import { captureLogs } from "./helpers";
+
+describe("createCircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should open after consecutive failures", () => {
+    const breaker = createCircuitBreaker({
+      name: "consecutive",
+      consecutiveFailureThreshold: 3,
+    });
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("closed");
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it("should open when the failure rate exceeds the threshold", () => {
+    const breaker = createCircuitBreaker({
+      name: "failure-rate",
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+    });
+
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe("closed");
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+  });
+
+  it("should forget outcomes outside the window", () => {
+    const breaker = createCircuitBreaker({
+      name: "window",
+      minimumRequests: 2,
+      windowMs: 1000,
+    });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1500);
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+
+    expect(breaker.getSnapshot()).toMatchObject({ requests: 2, failureRate: 0 });
+  });
+
+  it("should probe in half-open state", () => {
+    const breaker = createCircuitBreaker({
+      name: "half-open",
+      consecutiveFailureThreshold: 1,
+      openDurationMs: 1000,
+    });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    // 探测失败：重新打开
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+
+    // 探测成功：关闭
+    vi.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("should expose a health check and snapshots", async () => {
+    const breaker = createCircuitBreaker({
+      name: "user-auth",
+      consecutiveFailureThreshold: 1,
+    });
+    const health = createHealthHandler({
+      serviceName: "test",
+      checks: { "user-auth": breaker.healthCheck() },
+    });
+
+    expect((await health()).status).toBe(200);
+
+    breaker.recordFailure();
+    const response = await health();
+    const body = await response.json();
+    expect(response.status).toBe(503);
+    expect(body.checks["user-auth"].status).toBe("unhealthy");
+    expect(body.checks["user-auth"].error).toContain("circuit open");
+
+    expect(getCircuitBreakerSnapshots()).toContainEqual(
+      expect.objectContaining({ name: "user-auth", state: "open" })
+    );
+    expect(getDebugInfo().circuitBreakers).toContainEqual(
+      expect.objectContaining({ name: "user-auth", state: "open" })
+    );
+  });
+});
+
+describe("createTracedClient circuit breaker", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should fail fast once the circuit is open", async () => {
+    const fetchMock = vi.fn().mockImplementation(
+      async () => new Response("unavailable", { status: 503 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const client = createTracedClient("http://user-auth", {
+      circuitBreaker: { name: "client-fast-fail", consecutiveFailureThreshold: 2 },
+    });
+
+    await client.get("/api");
+    await client.get("/api");
+    const error = await runWithTraceContext({ traceId: "trace-123" }, () =>
+      client.get("/api/users").catch((e) => e)
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({
+      circuit: "client-fast-fail",
+      url: "http://user-auth/api/users",
+      method: "GET",
+      traceId: "trace-123",
+    });
+    expect(client.circuitBreaker?.getState()).toBe("open");
+  });
+
+  it("should count network errors but not caller aborts", async () => {
+    const breaker = createCircuitBreaker({
+      name: "client-errors",
+      consecutiveFailureThreshold: 2,
+    });
+    const client = createTracedClient("http://user-auth", { circuitBreaker: breaker });
+
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+    const controller = new AbortController();
+    controller.abort();
+    await expect(client.get("/api", { signal: controller.signal })).rejects.toThrow();
+    await expect(client.get("/api", { signal: controller.signal })).rejects.toThrow();
+    expect(breaker.getState()).toBe("closed");
+
+    await expect(client.get("/api")).rejects.toThrow("fetch failed");
+    await expect(client.get("/api")).rejects.toThrow("fetch failed");
+    expect(breaker.getState()).toBe("open");
+  });
+
+  it("should stop retrying when the circuit opens", async () => {
+    const fetchMock = vi.fn().mockImplementation(
+      async () => new Response("unavailable", { status: 503 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const client = createTracedClient("http://user-auth", {
+      retry: { maxAttempts: 5, baseDelayMs: 1 },
+      circuitBreaker: { name: "client-retry", consecutiveFailureThreshold: 2 },
+    });
+
+    expect((await client.get("/api")).status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await expect(client.get("/api")).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+});
+
+describe("createCircuitBreaker default logger", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should log with the logger configured after creation", () => {
+    const breaker = createCircuitBreaker({
+      name: "late-logger",
+      consecutiveFailureThreshold: 1,
+    });
+    configureLogger({ serviceName: "late-breaker" });
+    const lines = captureLogs(["warn"]);
+
+    breaker.recordFailure();
+
+    expect(lines[0]).toMatchObject({
+      service: "late-breaker",
+      message: "Circuit breaker opened",
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { EventEmitter } from "node:events";
+import { Readable } from "node:stream";
+import {
+  bindAsyncIterable,
+  bindEmitter,
+  bindReadableStream,
+  bindTraceContext,
+  captureTraceContext,
+  getTraceId,
+  restoreTraceContext,
+  runWithTraceContext,
+} from "../src/tracing";
+
+describe("captureTraceContext / restoreTraceContext", () => {
+  it("should capture a snapshot and restore it later", () => {
+    const snapshot = runWithTraceContext({ traceId: "trace-a" }, () =>
+      captureTraceContext()
+    );
+
+    expect(captureTraceContext()).toBeUndefined();
+    expect(restoreTraceContext(snapshot, () => getTraceId())).toBe("trace-a");
+  });
+
+  it("should run in an empty context without a snapshot", () => {
+    const traceId = runWithTraceContext({ traceId: "trace-outer" }, () =>
+      restoreTraceContext(undefined, () => getTraceId())
+    );
+
+    expect(traceId).toBeUndefined();
+  });
+});
+
+describe("bindTraceContext", () => {
+  it("should run callbacks in the bound context", async () => {
+    const queue: Array<() => void> = [];
+    const seen: Array<string | undefined> = [];
+
+    runWithTraceContext({ traceId: "trace-job" }, () => {
+      queue.push(bindTraceContext(() => seen.push(getTraceId())));
+    });
+
+    // 模拟连接池在请求之外执行回调
+    runWithTraceContext({ traceId: "trace-pool" }, () => {
+      for (const task of queue) task();
+    });
+
+    await new Promise<void>((resolve) =>
+      runWithTraceContext({ traceId: "trace-timer" }, () => {
+        setTimeout(
+          bindTraceContext(() => {
+            seen.push(getTraceId());
+            resolve();
+          }, { traceId: "trace-explicit" }),
+          1
+        );
+      })
+    );
+
+    expect(seen).toEqual(["trace-job", "trace-explicit"]);
+  });
+
+  it("should pass arguments and this", () => {
+    const target = {
+      prefix: "id",
+      format(value: number) {
+        return `${this.prefix}-${value}-${getTraceId()}`;
+      },
+    };
+
+    target.format = runWithTraceContext({ traceId: "t1" }, () =>
+      bindTraceContext(target.format)
+    );
+
+    expect(target.format(1)).toBe("id-1-t1");
+  });
+});
+
+describe("bindEmitter", () => {
+  it("should run listeners in the bound context", () => {
+    const emitter = new EventEmitter();
+    const seen: Array<string | undefined> = [];
+
+    // 监听器在请求外注册
+    emitter.on("data", () => seen.push(getTraceId()));
+
+    runWithTraceContext({ traceId: "trace-emitter" }, () => bindEmitter(emitter));
+    runWithTraceContext({ traceId: "trace-other" }, () => emitter.emit("data"));
+    emitter.emit("data");
+
+    expect(seen).toEqual(["trace-emitter", "trace-emitter"]);
+  });
+});
+
+describe("bindAsyncIterable", () => {
+  it("should produce values in the bound context", async () => {
+    async function* produce() {
+      for (let i = 0; i < 2; i++) {
+        await new Promise((r) => setTimeout(r, 1));
+        yield getTraceId();
+      }
+    }
+
+    const iterable = runWithTraceContext({ traceId: "trace-iter" }, () =>
+      bindAsyncIterable(produce())
+    );
+
+    const seen: Array<string | undefined> = [];
+    for await (const value of iterable) {
+      seen.push(value);
+    }
+
+    expect(seen).toEqual(["trace-iter", "trace-iter"]);
+  });
+
+  it("should wrap Node.js readables", async () => {
+    const readable = Readable.from(["a", "b"]);
+    const iterable = runWithTraceContext({ traceId: "trace-readable" }, () =>
+      bindAsyncIterable<string>(readable)
+    );
+
+    const chunks: string[] = [];
+    for await (const chunk of iterable) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(["a", "b"]);
+  });
+});
+
+describe("bindReadableStream", () => {
+  it("should pull from the source in the bound context", async () => {
+    let count = 0;
+    const source = new ReadableStream<string>({
+      pull(controller) {
+        if (count++ < 2) {
+          controller.enqueue(getTraceId() ?? "none");
+        } else {
+          controller.close();
+        }
+      },
+    }, { highWaterMark: 0 });
+
+    const stream = runWithTraceContext({ traceId: "trace-stream" }, () =>
+      bindReadableStream(source)
+    );
+
+    const chunks: string[] = [];
+    await runWithTraceContext({ traceId: "trace-consumer" }, async () => {
+      for await (const chunk of stream as unknown as AsyncIterable<string>) {
+        chunks.push(chunk);
+      }
+    });
+
+    expect(chunks).toEqual(["trace-stream", "trace-stream"]);
+  });
+});
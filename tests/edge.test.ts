@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { NextRequest, NextResponse, type NextFetchEvent } from "next/server";
+import {
+  withEdgeTracing,
+  createEdgeTracingMiddleware,
+  getTraceId,
+  isAsyncContextSupported,
+  runWithTraceContext,
+} from "../src/edge";
+
+const event = {} as NextFetchEvent;
+
+// 通过 NextResponse.next({ request: { headers } }) 转发的请求 header
+function forwarded(response: Response, name: string): string | null {
+  return response.headers.get(`x-middleware-request-${name.toLowerCase()}`);
+}
+
+describe("edge context storage", () => {
+  it("should fall back to sync storage without AsyncLocalStorage", async () => {
+    expect(isAsyncContextSupported()).toBe(false);
+
+    let syncTraceId: string | undefined;
+    let asyncTraceId: string | undefined;
+    await runWithTraceContext({ traceId: "trace-123" }, async () => {
+      syncTraceId = getTraceId();
+      await Promise.resolve();
+      asyncTraceId = getTraceId();
+    });
+
+    expect(syncTraceId).toBe("trace-123");
+    expect(asyncTraceId).toBeUndefined();
+  });
+});
+
+describe("withEdgeTracing", () => {
+  it("should generate trace id and forward headers", async () => {
+    const middleware = createEdgeTracingMiddleware({
+      serviceName: "test-service",
+      serviceShort: "test",
+    });
+
+    const response = await middleware(new NextRequest("http://localhost/api"), event);
+
+    const traceId = response.headers.get("X-Trace-ID");
+    expect(traceId).toContain("-test");
+    expect(response.headers.get("X-Request-ID")).toMatch(/^test_/);
+    expect(response.headers.get("x-middleware-next")).toBe("1");
+    expect(forwarded(response, "X-Trace-ID")).toBe(traceId);
+    expect(forwarded(response, "traceparent")).toMatch(/^00-[0-9a-f]{32}-/);
+  });
+
+  it("should propagate upstream trace id", async () => {
+    const middleware = createEdgeTracingMiddleware({ serviceName: "test" });
+
+    const response = await middleware(
+      new NextRequest("http://localhost/api", {
+        headers: { "X-Trace-ID": "upstream-trace-123" },
+      }),
+      event
+    );
+
+    expect(response.headers.get("X-Trace-ID")).toBe("upstream-trace-123");
+    expect(forwarded(response, "X-Trace-ID")).toBe("upstream-trace-123");
+  });
+
+  it("should expose context to middleware and keep short-circuit responses", async () => {
+    let seenTraceId: string | undefined;
+    const middleware = withEdgeTracing(
+      (request, _event, tracing) => {
+        seenTraceId = tracing.context.traceId;
+        return NextResponse.redirect(new URL("/login", request.url));
+      },
+      { serviceName: "test" }
+    );
+
+    const response = await middleware(new NextRequest("http://localhost/app"), event);
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get("X-Trace-ID")).toBe(seenTraceId);
+    expect(response.headers.get("x-middleware-next")).toBeNull();
+  });
+
+  it("should add forwarded headers to plain NextResponse.next()", async () => {
+    const middleware = withEdgeTracing(
+      () => {
+        const response = NextResponse.next();
+        response.headers.set("X-Custom", "1");
+        return response;
+      },
+      { serviceName: "test" }
+    );
+
+    const response = await middleware(new NextRequest("http://localhost/api"), event);
+
+    expect(response.headers.get("X-Custom")).toBe("1");
+    expect(forwarded(response, "X-Trace-ID")).toBe(
+      response.headers.get("X-Trace-ID")
+    );
+  });
+
+  it("should handle immutable responses", async () => {
+    const middleware = withEdgeTracing(
+      () => Response.redirect("http://localhost/login", 302),
+      { serviceName: "test" }
+    );
+
+    const response = await middleware(new NextRequest("http://localhost/app"), event);
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("X-Trace-ID")).toBeTruthy();
+  });
+});
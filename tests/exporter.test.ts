@@ -0,0 +1,320 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  createOtlpHttpExporter,
+  createBatchSpanProcessor,
+  configureSpanExport,
+  shutdownSpanExport,
+  getSpanExportStats,
+  toOtlpSpan,
+  type buildOtlpRequest,
+  type SpanExporter,
+} from "../src/exporter";
+import {
+  addSpanProcessor,
+  runWithTraceContext,
+  startSpan,
+  withSpan,
+  withTracing,
+  toW3CTraceId,
+} from "../src/tracing";
+import { instrumentGlobalFetch, instrumentUndici } from "../src/http";
+
+// 本地 collector 替身
+let server: Server;
+let collectorUrl: string;
+type OtlpRequest = ReturnType<typeof buildOtlpRequest>;
+
+let received: Array<{ headers: Record<string, unknown>; body: OtlpRequest }> = [];
+let responseStatuses: number[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body: JSON.parse(data) });
+      res.statusCode = responseStatuses.shift() ?? 200;
+      res.end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  collectorUrl = `http://127.0.0.1:${port}/v1/traces`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+  responseStatuses = [];
+});
+
+function spansIn(body: OtlpRequest) {
+  return body.resourceSpans[0].scopeSpans[0].spans;
+}
+
+describe("toOtlpSpan", () => {
+  it("should convert span to OTLP JSON", () => {
+    const span = runWithTraceContext(
+      { traceId: "67890abc-f1e2d3c4b5a6-auth", parentSpanId: "00f067aa0ba902b7" },
+      () => startSpan("work", { kind: "server", attributes: { a: "x", n: 2 } })
+    );
+    span.setStatus("error", "boom");
+    span.end(span.startTime + 10);
+
+    const otlp = toOtlpSpan(span);
+
+    expect(otlp.traceId).toBe(toW3CTraceId("67890abc-f1e2d3c4b5a6-auth"));
+    expect(otlp.parentSpanId).toBe("00f067aa0ba902b7");
+    expect(otlp.kind).toBe(2);
+    expect(otlp.status).toEqual({ code: 2, message: "boom" });
+    expect(BigInt(otlp.endTimeUnixNano) - BigInt(otlp.startTimeUnixNano)).toBe(
+      10_000_000n
+    );
+    expect(otlp.attributes).toContainEqual({
+      key: "n",
+      value: { intValue: "2" },
+    });
+  });
+});
+
+describe("createOtlpHttpExporter", () => {
+  it("should post spans to collector", async () => {
+    const exporter = createOtlpHttpExporter({
+      url: collectorUrl,
+      serviceName: "test-service",
+      headers: { Authorization: "Bearer x" },
+    });
+    const span = startSpan("work");
+    span.end();
+
+    const result = await exporter.export([span]);
+
+    expect(result).toBe("success");
+    expect(received).toHaveLength(1);
+    expect(received[0].headers.authorization).toBe("Bearer x");
+    expect(received[0].body.resourceSpans[0].resource.attributes).toContainEqual({
+      key: "service.name",
+      value: { stringValue: "test-service" },
+    });
+    expect(spansIn(received[0].body)[0].name).toBe("work");
+  });
+
+  it("should classify failures", async () => {
+    const exporter = createOtlpHttpExporter({
+      url: collectorUrl,
+      serviceName: "test",
+    });
+    const span = startSpan("work");
+    span.end();
+
+    responseStatuses = [503, 400];
+    expect(await exporter.export([span])).toBe("retryable");
+    expect(await exporter.export([span])).toBe("failed");
+
+    const unreachable = createOtlpHttpExporter({
+      url: "http://127.0.0.1:1/v1/traces",
+      serviceName: "test",
+    });
+    expect(await unreachable.export([span])).toBe("retryable");
+  });
+});
+
+describe("createBatchSpanProcessor", () => {
+  function fakeExporter(results: Array<"success" | "retryable" | "failed">) {
+    const batches: number[] = [];
+    const exporter: SpanExporter = {
+      async export(spans) {
+        batches.push(spans.length);
+        return results.shift() ?? "success";
+      },
+      async shutdown() {},
+    };
+    return { exporter, batches };
+  }
+
+  function endedSpan() {
+    const span = startSpan("work");
+    span.end();
+    return span;
+  }
+
+  it("should batch spans and flush", async () => {
+    const { exporter, batches } = fakeExporter([]);
+    const processor = createBatchSpanProcessor(exporter, {
+      maxExportBatchSize: 2,
+      scheduledDelayMs: 60000,
+    });
+
+    for (let i = 0; i < 5; i++) {
+      processor.onEnd(endedSpan());
+    }
+    await processor.forceFlush();
+
+    expect(batches).toEqual([2, 2, 1]);
+    expect(processor.getStats().exported).toBe(5);
+  });
+
+  it("should drop spans when queue is full", async () => {
+    const { exporter } = fakeExporter([]);
+    const processor = createBatchSpanProcessor(exporter, {
+      maxQueueSize: 2,
+      scheduledDelayMs: 60000,
+    });
+
+    processor.onEnd(endedSpan());
+    processor.onEnd(endedSpan());
+    processor.onEnd(endedSpan());
+
+    expect(processor.getStats()).toMatchObject({ queued: 2, dropped: 1 });
+  });
+
+  it("should retry with backoff", async () => {
+    const { exporter, batches } = fakeExporter(["retryable", "retryable"]);
+    const processor = createBatchSpanProcessor(exporter, {
+      initialBackoffMs: 1,
+      scheduledDelayMs: 60000,
+    });
+
+    processor.onEnd(endedSpan());
+    await processor.forceFlush();
+
+    expect(batches).toEqual([1, 1, 1]);
+    expect(processor.getStats()).toMatchObject({ exported: 1, retries: 2 });
+  });
+
+  it("should give up after max retries", async () => {
+    const { exporter } = fakeExporter(["retryable", "retryable", "retryable"]);
+    const processor = createBatchSpanProcessor(exporter, {
+      maxRetries: 2,
+      initialBackoffMs: 1,
+      scheduledDelayMs: 60000,
+    });
+
+    processor.onEnd(endedSpan());
+    await processor.forceFlush();
+
+    expect(processor.getStats()).toMatchObject({ failed: 1, retries: 2 });
+  });
+
+  it("should keep exporting after the exporter throws", async () => {
+    const batches: number[] = [];
+    let calls = 0;
+    const exporter: SpanExporter = {
+      async export(spans) {
+        if (calls++ === 0) throw new Error("collector unreachable");
+        batches.push(spans.length);
+        return "success";
+      },
+      async shutdown() {},
+    };
+    const processor = createBatchSpanProcessor(exporter, {
+      maxExportBatchSize: 1,
+      scheduledDelayMs: 60000,
+    });
+
+    processor.onEnd(endedSpan());
+    processor.onEnd(endedSpan());
+    await processor.forceFlush();
+    processor.onEnd(endedSpan());
+    await processor.forceFlush();
+
+    expect(batches).toEqual([1, 1]);
+    expect(processor.getStats()).toMatchObject({ failed: 1, exported: 2 });
+  });
+
+  it("should flush on shutdown and drop afterwards", async () => {
+    const { exporter, batches } = fakeExporter([]);
+    const processor = createBatchSpanProcessor(exporter, {
+      scheduledDelayMs: 60000,
+    });
+
+    processor.onEnd(endedSpan());
+    await processor.shutdown();
+    processor.onEnd(endedSpan());
+
+    expect(batches).toEqual([1]);
+    expect(processor.getStats().dropped).toBe(1);
+  });
+
+  it("should receive spans when registered", async () => {
+    const { exporter, batches } = fakeExporter([]);
+    const processor = createBatchSpanProcessor(exporter, {
+      scheduledDelayMs: 60000,
+    });
+    const unregister = addSpanProcessor(processor);
+
+    withSpan("a", () => {});
+    unregister();
+    withSpan("b", () => {});
+    await processor.forceFlush();
+
+    expect(batches).toEqual([1]);
+  });
+});
+
+describe("configureSpanExport", () => {
+  it("should export spans from withTracing", async () => {
+    configureSpanExport({
+      url: collectorUrl,
+      serviceName: "test-service",
+      scheduledDelayMs: 60000,
+      flushOnExit: false,
+    });
+
+    const handler = withTracing(
+      async () => {
+        await withSpan("db.query", async () => {});
+        return Response.json({ ok: true });
+      },
+      { serviceName: "test-service" }
+    );
+    await handler(new Request("http://localhost/api/users"));
+
+    expect(getSpanExportStats()?.queued).toBe(2);
+    await shutdownSpanExport();
+
+    const spans = spansIn(received[0].body);
+    expect(spans.map((s) => s.name)).toEqual([
+      "db.query",
+      "GET /api/users",
+    ]);
+    expect(spans[0].parentSpanId).toBe(spans[1].spanId);
+    expect(getSpanExportStats()).toBeNull();
+  });
+
+  it("should not trace its own export requests", async () => {
+    const uninstallFetch = instrumentGlobalFetch({ hosts: ["127.0.0.1"] });
+    const uninstallUndici = instrumentUndici({ hosts: ["127.0.0.1"] });
+    configureSpanExport({
+      url: collectorUrl,
+      serviceName: "test-service",
+      scheduledDelayMs: 10,
+      flushOnExit: false,
+    });
+
+    try {
+      const handler = withTracing(
+        async () => {
+          await withSpan("db.query", async () => {});
+          return Response.json({ ok: true });
+        },
+        { serviceName: "test-service" }
+      );
+      await handler(new Request("http://localhost/api/users"));
+      // 若导出请求被追踪，会不断产生新的 client span 并再次导出
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    } finally {
+      await shutdownSpanExport();
+      uninstallUndici();
+      uninstallFetch();
+    }
+
+    expect(received).toHaveLength(1);
+    expect(spansIn(received[0].body)).toHaveLength(2);
+  });
+});
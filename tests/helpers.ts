@@ -0,0 +1,26 @@
+import { vi } from "vitest";
+
+export type LogLine = Record<string, unknown>;
+
+type ConsoleLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * 拦截指定级别的 console 输出，解析为 JSON 日志行
+ */
+export function captureLogs(levels: ConsoleLevel[] = ["info", "warn", "error"]): LogLine[] {
+  const lines: LogLine[] = [];
+  const capture = (...args: unknown[]) => {
+    lines.push(JSON.parse(String(args[0])) as LogLine);
+  };
+  for (const level of levels) {
+    vi.spyOn(console, level).mockImplementation(capture);
+  }
+  return lines;
+}
+
+/**
+ * 日志行的 `extra` 字段（不存在时为空对象）
+ */
+export function extraOf(line: LogLine | undefined): LogLine {
+  return (line?.extra ?? {}) as LogLine;
+}
@@ -1,6 +1,20 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { tracedFetch, createTracedClient } from "../src/http";
-import { runWithTraceContext } from "../src/tracing";
+import {
+  tracedFetch,
+  createTracedClient,
+  HttpError,
+  HttpTimeoutError,
+  ResponseValidationError,
+} from "../src/http";
+import {
+  addSpanProcessor,
+  getTraceContext,
+  runWithTraceContext,
+  withSpan,
+  type Span,
+} from "../src/tracing";
+import { configureLogger, createLogger } from "../src/logging";
+import { captureLogs, extraOf } from "./helpers";
 
 describe("tracedFetch", () => {
   beforeEach(() => {
@@ -24,18 +38,39 @@ describe("tracedFetch", () => {
   });
 
   it("should inject trace headers when in context", async () => {
+    const ended: Span[] = [];
+    const unregister = addSpanProcessor({ onEnd: (span) => ended.push(span) });
+
     await runWithTraceContext(
       { traceId: "trace-123", requestId: "req-456" },
       async () => {
         await tracedFetch("http://localhost/api");
       }
     );
+    unregister();
 
     const [, options] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
     const headers = options.headers;
 
+    // 下游的父 span 为本次调用的 client span
     expect(headers.get("X-Trace-ID")).toBe("trace-123");
-    expect(headers.get("X-Parent-Span-ID")).toBe("req-456");
+    expect(headers.get("X-Parent-Span-ID")).toBe(ended[0].spanId);
+    expect(headers.get("traceparent")).toContain(ended[0].spanId);
+  });
+
+  it("should parent the client span on the caller span", async () => {
+    const ended: Span[] = [];
+    const unregister = addSpanProcessor({ onEnd: (span) => ended.push(span) });
+
+    await runWithTraceContext({ traceId: "trace-123" }, () =>
+      withSpan("handler", () => tracedFetch("http://localhost/api"))
+    );
+    unregister();
+
+    const [client, handler] = ended;
+    const [, options] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(client.parentSpanId).toBe(handler.spanId);
+    expect(options.headers.get("X-Parent-Span-ID")).toBe(client.spanId);
   });
 
   it("should not inject headers when disabled", async () => {
@@ -72,6 +107,117 @@ describe("tracedFetch", () => {
 
     expect(headers.get("X-Trace-ID")).toBe("custom-trace");
   });
+
+  it("should record client span when in context", async () => {
+    const ended: Span[] = [];
+    const unregister = addSpanProcessor({ onEnd: (span) => ended.push(span) });
+
+    await tracedFetch("http://localhost/api");
+    await runWithTraceContext({ traceId: "trace-123" }, async () => {
+      await tracedFetch("http://localhost/api", { method: "post" });
+    });
+    unregister();
+
+    expect(ended).toHaveLength(1);
+    expect(ended[0].kind).toBe("client");
+    expect(ended[0].traceId).toBe("trace-123");
+    expect(ended[0].attributes["http.method"]).toBe("POST");
+    expect(ended[0].attributes["http.status_code"]).toBe(200);
+  });
+
+  it("should annotate client span with upstream details", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        new Response("ok", {
+          headers: {
+            "Content-Length": "2",
+            "X-Request-ID": "auth_abc123",
+            "X-Served-By": "user-auth@1.2.0",
+          },
+        })
+      )
+    );
+    const ended: Span[] = [];
+    const unregister = addSpanProcessor({ onEnd: (span) => ended.push(span) });
+
+    await runWithTraceContext({ traceId: "trace-123" }, async () => {
+      await tracedFetch("http://user-auth:8000/api/users/42?expand=1", {
+        method: "PUT",
+        body: '{"name":"李"}',
+        retryCount: 1,
+      });
+    });
+    unregister();
+
+    expect(ended[0].attributes).toMatchObject({
+      "http.host": "user-auth:8000",
+      "http.route": "/api/users/[id]",
+      "http.retry_count": 1,
+      "http.request_content_length": 14,
+      "http.response_content_length": 2,
+      "upstream.request_id": "auth_abc123",
+      "upstream.served_by": "user-auth@1.2.0",
+    });
+    expect(ended[0].durationMs()).toBeGreaterThanOrEqual(0);
+  });
+
+  describe("logging", () => {
+    const logger = createLogger({ serviceName: "test" });
+
+    it("should log network failures", async () => {
+      const lines = captureLogs(["warn", "error"]);
+      vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+
+      await expect(
+        tracedFetch("http://user-auth/api/users", { logger })
+      ).rejects.toThrow("fetch failed");
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({
+        level: "error",
+        message: "Outbound request failed",
+        extra: { method: "GET", host: "user-auth", route: "/api/users" },
+        exception: { message: "fetch failed" },
+      });
+    });
+
+    it("should log 5xx responses with upstream ids", async () => {
+      const lines = captureLogs(["warn", "error"]);
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(
+          new Response("down", { status: 503, headers: { "X-Request-ID": "auth_1" } })
+        )
+      );
+
+      const response = await tracedFetch("http://user-auth/api", { logger });
+
+      expect(response.status).toBe(503);
+      expect(lines[0]).toMatchObject({
+        level: "warn",
+        message: "Outbound request failed",
+        extra: { status: 503, upstreamRequestId: "auth_1" },
+      });
+    });
+
+    it("should log slow requests", async () => {
+      const lines = captureLogs(["warn", "error"]);
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockImplementation(
+          () => new Promise((resolve) => setTimeout(() => resolve(new Response("ok")), 20))
+        )
+      );
+
+      await tracedFetch("http://user-auth/api", { logger, slowThresholdMs: 10 });
+      await tracedFetch("http://user-auth/api", { logger, slowThresholdMs: 0 });
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0].message).toBe("Slow outbound request");
+      expect(extraOf(lines[0]).durationMs).toBeGreaterThanOrEqual(10);
+    });
+  });
 });
 
 describe("createTracedClient", () => {
@@ -155,3 +301,366 @@ describe("createTracedClient", () => {
     expect(options.headers.get("X-Trace-ID")).toBe("trace-123");
   });
 });
+
+describe("timeouts", () => {
+  // 永不返回的 fetch，仅在 signal abort 时 reject
+  const hangingFetch = vi.fn(
+    (_url: unknown, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+      })
+  );
+
+  beforeEach(() => {
+    hangingFetch.mockClear();
+    vi.stubGlobal("fetch", hangingFetch);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should throw HttpTimeoutError with url and trace id", async () => {
+    const error = await runWithTraceContext(
+      { traceId: "trace-123", requestId: "req-456" },
+      () => tracedFetch("http://user-auth/api/users", { timeoutMs: 10 }).catch((e) => e)
+    );
+
+    expect(error).toBeInstanceOf(HttpTimeoutError);
+    expect(error).toMatchObject({
+      url: "http://user-auth/api/users",
+      method: "GET",
+      timeoutMs: 10,
+      traceId: "trace-123",
+      requestId: "req-456",
+    });
+    expect(error.message).toContain("trace_id=trace-123");
+  });
+
+  it("should propagate the timeout to downstream services", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("ok")));
+
+    await tracedFetch("http://localhost/api", { timeoutMs: 5000 });
+
+    const [, options] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(options.headers.get("X-Request-Timeout-Ms")).toBe("5000");
+    expect(options.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it("should respect caller-provided signals", async () => {
+    const controller = new AbortController();
+    const pending = tracedFetch("http://localhost/api", {
+      timeoutMs: 5000,
+      signal: controller.signal,
+    });
+    controller.abort(new Error("cancelled"));
+
+    await expect(pending).rejects.toThrow("cancelled");
+  });
+
+  it("should remove its listener from long-lived caller signals", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("ok")));
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, "addEventListener");
+    const removeListener = vi.spyOn(controller.signal, "removeEventListener");
+
+    await tracedFetch("http://localhost/api", { timeoutMs: 5000, signal: controller.signal });
+    await tracedFetch("http://localhost/api", { timeoutMs: 5000, signal: controller.signal });
+
+    expect(addListener).toHaveBeenCalledTimes(2);
+    expect(removeListener.mock.calls.map(([, listener]) => listener)).toEqual(
+      addListener.mock.calls.map(([, listener]) => listener)
+    );
+  });
+
+  it("should shorten the timeout to the upstream deadline", async () => {
+    const error = await runWithTraceContext(
+      { traceId: "trace-123", deadline: Date.now() + 20 },
+      () => tracedFetch("http://localhost/api", { timeoutMs: 5000 }).catch((e) => e)
+    );
+
+    expect(error).toBeInstanceOf(HttpTimeoutError);
+    expect(error.timeoutMs).toBeLessThanOrEqual(20);
+    const [, options] = hangingFetch.mock.calls[0];
+    expect(Number(new Headers(options.headers).get("X-Request-Timeout-Ms"))).toBeLessThanOrEqual(20);
+  });
+
+  it("should fail fast when the deadline has passed", async () => {
+    const error = await runWithTraceContext(
+      { traceId: "trace-123", deadline: Date.now() - 1 },
+      () => tracedFetch("http://localhost/api").catch((e) => e)
+    );
+
+    expect(error).toBeInstanceOf(HttpTimeoutError);
+    expect(error.timeoutMs).toBe(0);
+  });
+
+  it("should apply per-client timeouts and per-call overrides", async () => {
+    const client = createTracedClient("http://localhost", { timeoutMs: 10 });
+
+    await expect(client.get("/api")).rejects.toBeInstanceOf(HttpTimeoutError);
+    const error = await client.get("/api", { timeoutMs: 15 }).catch((e) => e);
+    expect(error.timeoutMs).toBe(15);
+  });
+});
+
+describe("createTracedClient JSON helpers", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should parse JSON responses", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(Response.json({ id: "u_1" })));
+    const client = createTracedClient("http://user-auth");
+
+    const user = await client.getJson<{ id: string }>("/users/u_1");
+
+    expect(user).toEqual({ id: "u_1" });
+    const [, options] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(options.headers.get("Accept")).toBe("application/json");
+  });
+
+  it("should send JSON bodies", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(Response.json({ id: "u_2" }, { status: 201 }))
+    );
+    const client = createTracedClient("http://user-auth");
+
+    await client.postJson("/users", { name: "John" }, { headers: new Headers({ "X-Tenant": "t1" }) });
+
+    const [, options] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(options.method).toBe("POST");
+    expect(options.body).toBe(JSON.stringify({ name: "John" }));
+    expect(options.headers.get("Content-Type")).toBe("application/json");
+    expect(options.headers.get("X-Tenant")).toBe("t1");
+  });
+
+  it("should return undefined for empty responses", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(null, { status: 204 })));
+    const client = createTracedClient("http://user-auth");
+
+    expect(await client.requestJson("DELETE", "/users/u_1")).toBeUndefined();
+  });
+
+  it("should throw HttpError with upstream details", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        new Response("x".repeat(2000), {
+          status: 503,
+          statusText: "Service Unavailable",
+          headers: {
+            "X-Trace-ID": "trace-up",
+            "X-Request-ID": "auth_req_1",
+            "X-Served-By": "user-auth-7f9c",
+          },
+        })
+      )
+    );
+    const client = createTracedClient("http://user-auth");
+
+    const error = await client.getJson("/users/u_1").catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      status: 503,
+      method: "GET",
+      url: "http://user-auth/users/u_1",
+      traceId: "trace-up",
+      requestId: "auth_req_1",
+      servedBy: "user-auth-7f9c",
+    });
+    expect(error.body).toHaveLength(1025);
+    expect(error.message).toContain("request_id=auth_req_1");
+  });
+
+  it("should fall back to the local trace id", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("not found", { status: 404 })));
+    const client = createTracedClient("http://user-auth");
+
+    const error = await runWithTraceContext({ traceId: "trace-local" }, () =>
+      client.getJson("/users/u_1").catch((e) => e)
+    );
+
+    expect(error.traceId).toBe("trace-local");
+    expect(error.body).toBe("not found");
+  });
+
+  it("should validate responses with a schema", async () => {
+    const client = createTracedClient("http://user-auth");
+    const schema = {
+      parse(data: unknown) {
+        if (typeof (data as { id?: unknown }).id !== "string") {
+          throw new Error("id must be a string");
+        }
+        return data as { id: string };
+      },
+    };
+
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(Response.json({ id: "u_1" })));
+    expect(await client.getJson("/users/u_1", { schema })).toEqual({ id: "u_1" });
+
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(Response.json({ id: 1 })));
+    const error = await client.getJson("/users/u_1", { schema }).catch((e) => e);
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.message).toContain("id must be a string");
+    expect(error.cause).toBeInstanceOf(Error);
+
+    // 校验函数
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(Response.json({ count: 2 })));
+    const count = await client.getJson("/users/count", {
+      schema: (data) => (data as { count: number }).count,
+    });
+    expect(count).toBe(2);
+  });
+
+  it("should reject invalid JSON", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("<html>")));
+    const client = createTracedClient("http://user-auth");
+
+    await expect(client.getJson("/users")).rejects.toBeInstanceOf(ResponseValidationError);
+  });
+});
+
+describe("createTracedClient options and interceptors", () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockImplementation(async () => Response.json({ data: { id: "u_1" } }))
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const calledUrl = (index = 0) =>
+    String((fetch as ReturnType<typeof vi.fn>).mock.calls[index][0]);
+
+  it("should keep the base path", async () => {
+    const client = createTracedClient("http://svc/api/v1");
+
+    await client.get("/users");
+    await client.get("users/42?fields=name");
+    await client.get("http://other-svc/health");
+
+    expect(calledUrl(0)).toBe("http://svc/api/v1/users");
+    expect(calledUrl(1)).toBe("http://svc/api/v1/users/42?fields=name");
+    expect(calledUrl(2)).toBe("http://other-svc/health");
+  });
+
+  it("should accept an options object with default headers", async () => {
+    const client = createTracedClient({
+      baseUrl: "http://svc/api/v1/",
+      headers: { "X-Tenant-ID": "t1", "X-Client": "default" },
+    });
+
+    await client.post("/users", { name: "John" }, { headers: new Headers({ "X-Client": "call" }) });
+
+    expect(calledUrl()).toBe("http://svc/api/v1/users");
+    const [, options] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(options.headers.get("X-Tenant-ID")).toBe("t1");
+    expect(options.headers.get("X-Client")).toBe("call");
+    expect(options.headers.get("Content-Type")).toBe("application/json");
+  });
+
+  it("should run hooks in order inside the trace context", async () => {
+    const calls: string[] = [];
+    const client = createTracedClient("http://svc", {
+      interceptors: [
+        {
+          async onRequest(request) {
+            await Promise.resolve();
+            calls.push(`request:a:${getTraceContext().traceId}`);
+            request.headers.set("Authorization", "Bearer service-token");
+          },
+          onResponse() {
+            calls.push("response:a");
+          },
+        },
+        {
+          onRequest(request) {
+            calls.push("request:b");
+            return { ...request, url: new URL("http://svc/rewritten") };
+          },
+          async onResponse() {
+            await Promise.resolve();
+            calls.push(`response:b:${getTraceContext().traceId}`);
+          },
+        },
+      ],
+    });
+
+    await runWithTraceContext({ traceId: "trace-123" }, () => client.get("/users"));
+
+    expect(calls).toEqual([
+      "request:a:trace-123",
+      "request:b",
+      "response:b:trace-123",
+      "response:a",
+    ]);
+    const [url, options] = (fetch as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(String(url)).toBe("http://svc/rewritten");
+    expect(options.headers.get("Authorization")).toBe("Bearer service-token");
+    expect(options.headers.get("X-Trace-ID")).toBe("trace-123");
+  });
+
+  it("should let onResponse unwrap JSON envelopes", async () => {
+    const client = createTracedClient("http://svc", {
+      interceptors: [
+        {
+          async onResponse(response) {
+            const { data } = await response.json();
+            return Response.json(data, { status: response.status });
+          },
+        },
+      ],
+    });
+
+    expect(await client.getJson("/users/u_1")).toEqual({ id: "u_1" });
+  });
+
+  it("should let onError recover or rethrow", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+    const seen: unknown[] = [];
+    const client = createTracedClient("http://svc", {
+      interceptors: [
+        {
+          onError(error, request) {
+            seen.push(error);
+            if (request.url.pathname === "/fallback") {
+              return Response.json({ cached: true });
+            }
+          },
+        },
+      ],
+    });
+
+    expect(await client.getJson("/fallback")).toEqual({ cached: true });
+    await expect(client.get("/users")).rejects.toThrow("fetch failed");
+    expect(seen).toHaveLength(2);
+  });
+});
+
+describe("createTracedClient default logger", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("should log with the logger configured after the client was created", async () => {
+    const client = createTracedClient("http://svc");
+    configureLogger({ serviceName: "late-client" });
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("down", { status: 503 })));
+    const lines = captureLogs(["warn"]);
+
+    await client.get("/users");
+
+    expect(lines[0]).toMatchObject({
+      service: "late-client",
+      message: "Outbound request failed",
+    });
+  });
+});
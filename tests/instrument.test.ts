@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  createHostMatcher,
+  instrumentGlobalFetch,
+  instrumentUndici,
+  tracedFetch,
+} from "../src/http";
+import { addSpanProcessor, runWithTraceContext, type Span } from "../src/tracing";
+import { createFetchStub } from "../src/testing";
+
+function collectSpans() {
+  const spans: Span[] = [];
+  const unregister = addSpanProcessor({ onEnd: (span) => spans.push(span) });
+  return { spans, unregister };
+}
+
+describe("createHostMatcher", () => {
+  it("should match hosts, wildcards and patterns", () => {
+    const matches = createHostMatcher(["user-auth", "billing:8080", "*.optima.internal", /^ledger-/]);
+
+    expect(matches(new URL("http://user-auth:8000/api"))).toBe(true);
+    expect(matches(new URL("http://billing:8080/api"))).toBe(true);
+    expect(matches(new URL("http://billing:9090/api"))).toBe(false);
+    expect(matches(new URL("http://commerce.optima.internal/api"))).toBe(true);
+    expect(matches(new URL("http://ledger-eu:8000/api"))).toBe(true);
+    expect(matches(new URL("https://api.stripe.com/v1"))).toBe(false);
+  });
+});
+
+describe("instrumentGlobalFetch", () => {
+  let uninstall: (() => void) | undefined;
+  const fetchStub = vi.fn();
+
+  beforeEach(() => {
+    fetchStub.mockReset();
+    fetchStub.mockImplementation(async () => new Response("ok"));
+    vi.stubGlobal("fetch", fetchStub);
+    uninstall = instrumentGlobalFetch({ hosts: ["user-auth"] });
+  });
+
+  afterEach(() => {
+    uninstall?.();
+    vi.unstubAllGlobals();
+  });
+
+  it("should inject trace headers for allowlisted hosts only", async () => {
+    await runWithTraceContext({ traceId: "trace-123", requestId: "req-456" }, async () => {
+      await fetch("http://user-auth/api/users");
+      await fetch("https://api.stripe.com/v1/charges");
+    });
+
+    const [, internal] = fetchStub.mock.calls[0];
+    expect(new Headers(internal.headers).get("X-Trace-ID")).toBe("trace-123");
+    const [, external] = fetchStub.mock.calls[1];
+    expect(new Headers(external?.headers).has("X-Trace-ID")).toBe(false);
+  });
+
+  it("should keep Request headers and record client spans", async () => {
+    const { spans, unregister } = collectSpans();
+
+    try {
+      await runWithTraceContext({ traceId: "trace-123" }, () =>
+        fetch(new Request("http://user-auth/api/users/42", { method: "DELETE", headers: { "X-Api-Key": "k" } }))
+      );
+    } finally {
+      unregister();
+    }
+
+    const [, init] = fetchStub.mock.calls[0];
+    expect(init.method).toBeUndefined();
+    expect(init.headers.get("X-Api-Key")).toBe("k");
+    expect(init.headers.get("X-Trace-ID")).toBe("trace-123");
+    expect(spans[0].name).toBe("HTTP DELETE");
+    expect(spans[0].attributes["http.route"]).toBe("/api/users/[id]");
+  });
+
+  it("should not instrument tracedFetch twice", async () => {
+    const { spans, unregister } = collectSpans();
+
+    try {
+      await runWithTraceContext({ traceId: "trace-123" }, () =>
+        tracedFetch("http://user-auth/api")
+      );
+    } finally {
+      unregister();
+    }
+
+    expect(fetchStub).toHaveBeenCalledTimes(1);
+    expect(spans.filter((span) => span.kind === "client")).toHaveLength(1);
+  });
+
+  it("should let tracedFetch use fetch replaced after instrumentation", async () => {
+    const stub = createFetchStub();
+    stub.on("GET /api", { body: "stubbed" });
+    stub.install();
+    const { spans, unregister } = collectSpans();
+
+    try {
+      const response = await runWithTraceContext({ traceId: "trace-123" }, () =>
+        tracedFetch("http://user-auth/api")
+      );
+      expect(await response.text()).toBe("stubbed");
+    } finally {
+      unregister();
+      stub.restore();
+    }
+
+    expect(stub.requests[0].trace.traceId).toBe("trace-123");
+    expect(fetchStub).not.toHaveBeenCalled();
+    expect(spans.filter((span) => span.kind === "client")).toHaveLength(1);
+  });
+
+  it("should restore the original fetch on uninstall", async () => {
+    uninstall?.();
+    uninstall = undefined;
+
+    expect(globalThis.fetch).toBe(fetchStub);
+    await runWithTraceContext({ traceId: "trace-123" }, () => fetch("http://user-auth/api"));
+    expect(fetchStub.mock.calls[0][1]).toBeUndefined();
+  });
+});
+
+describe("instrumentUndici", () => {
+  it("should inject headers and record spans for native fetch", async () => {
+    const received: IncomingHttpHeaders[] = [];
+    const server = createServer((req, res) => {
+      received.push(req.headers);
+      res.setHeader("X-Request-ID", "auth_req_1");
+      res.end("ok");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    const { spans, unregister } = collectSpans();
+    const uninstall = instrumentUndici({ hosts: ["127.0.0.1"] });
+
+    try {
+      await runWithTraceContext({ traceId: "trace-123", requestId: "req-456" }, async () => {
+        const response = await fetch(`http://127.0.0.1:${port}/api/users/42`);
+        await response.text();
+      });
+      // 上下文之外的请求不处理
+      await (await fetch(`http://127.0.0.1:${port}/api`)).text();
+
+      uninstall();
+      await runWithTraceContext({ traceId: "trace-789" }, async () => {
+        await (await fetch(`http://127.0.0.1:${port}/api`)).text();
+      });
+    } finally {
+      uninstall();
+      unregister();
+      await new Promise((resolve) => server.close(resolve));
+    }
+
+    expect(received[0]["x-trace-id"]).toBe("trace-123");
+    expect(received[1]["x-trace-id"]).toBeUndefined();
+    expect(received[2]["x-trace-id"]).toBeUndefined();
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({ name: "HTTP GET", kind: "client" });
+    expect(received[0]["x-parent-span-id"]).toBe(spans[0].spanId);
+    expect(received[0].traceparent).toContain(spans[0].spanId);
+    expect(spans[0].attributes).toMatchObject({
+      "http.status_code": 200,
+      "http.route": "/api/users/[id]",
+      "upstream.request_id": "auth_req_1",
+    });
+  });
+});
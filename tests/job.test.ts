@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  addSpanProcessor,
+  deserializeTraceContext,
+  getRequestId,
+  getTraceId,
+  runWithTraceContext,
+  serializeTraceContext,
+  withJobTracing,
+  withSpan,
+  type Span,
+} from "../src/tracing";
+import { configureLogger, createLogger } from "../src/logging";
+import { captureLogs, extraOf } from "./helpers";
+
+describe("serializeTraceContext", () => {
+  it("should return undefined outside a trace", () => {
+    expect(serializeTraceContext()).toBeUndefined();
+  });
+
+  it("should round-trip through JSON", () => {
+    const serialized = runWithTraceContext(
+      {
+        traceId: "trace-123",
+        requestId: "req_1",
+        spanId: "aaaaaaaaaaaaaaaa",
+        sampled: false,
+        traceState: "vendor=1",
+        baggage: { tenant: "acme" },
+      },
+      () => serializeTraceContext()
+    );
+
+    expect(serialized).toEqual({
+      traceId: "trace-123",
+      spanId: "aaaaaaaaaaaaaaaa",
+      sampled: false,
+      traceState: "vendor=1",
+      baggage: { tenant: "acme" },
+    });
+    expect(deserializeTraceContext(JSON.stringify(serialized))).toEqual({
+      traceId: "trace-123",
+      parentSpanId: "aaaaaaaaaaaaaaaa",
+      sampled: false,
+      traceState: "vendor=1",
+      baggage: { tenant: "acme" },
+    });
+  });
+
+  it("should fall back to requestId as span", () => {
+    const serialized = runWithTraceContext(
+      { traceId: "trace-123", requestId: "req_1" },
+      () => serializeTraceContext()
+    );
+
+    expect(serialized?.spanId).toBe("req_1");
+  });
+});
+
+describe("deserializeTraceContext", () => {
+  it("should reject invalid payloads", () => {
+    expect(deserializeTraceContext(undefined)).toBeUndefined();
+    expect(deserializeTraceContext("not json")).toBeUndefined();
+    expect(deserializeTraceContext({ spanId: "abc" })).toBeUndefined();
+    expect(deserializeTraceContext({ traceId: 42 })).toBeUndefined();
+    expect(deserializeTraceContext({ traceId: "x".repeat(1000) })).toBeUndefined();
+  });
+
+  it("should drop malformed fields", () => {
+    expect(
+      deserializeTraceContext({
+        traceId: "trace-123",
+        sampled: "yes",
+        baggage: { ok: "1", bad: 2 },
+      })
+    ).toEqual({ traceId: "trace-123", baggage: { ok: "1" } });
+  });
+});
+
+describe("withJobTracing", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should restore the enqueueing trace", async () => {
+    const ended: Span[] = [];
+    const unregister = addSpanProcessor({ onEnd: (span) => ended.push(span) });
+
+    try {
+      // 入队请求
+      const payload = await runWithTraceContext(
+        { traceId: "trace-api", requestId: "api_1" },
+        () =>
+          withSpan("enqueue", async () => ({
+            to: "a@example.com",
+            traceContext: serializeTraceContext(),
+          }))
+      );
+      const enqueueSpan = ended.find((span) => span.name === "enqueue")!;
+
+      const job = withJobTracing(
+        "send-email",
+        async (data: typeof payload) => ({
+          to: data.to,
+          traceId: getTraceId(),
+          requestId: getRequestId(),
+        }),
+        { serviceName: "worker", serviceShort: "wrk" }
+      );
+
+      const result = await job(payload);
+      const jobSpan = ended.find((span) => span.name === "job send-email")!;
+
+      expect(result.traceId).toBe("trace-api");
+      expect(result.requestId).toMatch(/^wrk_job_/);
+      expect(jobSpan.kind).toBe("consumer");
+      expect(jobSpan.traceId).toBe("trace-api");
+      expect(jobSpan.parentSpanId).toBe(enqueueSpan.spanId);
+    } finally {
+      unregister();
+    }
+  });
+
+  it("should start a new trace without context", async () => {
+    const job = withJobTracing("cleanup", () => getTraceId(), {
+      serviceName: "worker",
+      serviceShort: "wrk",
+    });
+
+    expect(await job(undefined)).toMatch(/-wrk$/);
+  });
+
+  it("should read context with a custom accessor", async () => {
+    const job = withJobTracing(
+      "sync",
+      () => getTraceId(),
+      {
+        serviceName: "worker",
+        traceContext: (message: { headers: Record<string, string> }) =>
+          message.headers["x-trace-context"],
+      }
+    );
+
+    const traceId = await job({
+      headers: { "x-trace-context": JSON.stringify({ traceId: "trace-kafka" }) },
+    });
+
+    expect(traceId).toBe("trace-kafka");
+  });
+
+  it("should log start, completion and failure with duration", async () => {
+    const entries = captureLogs(["info", "error"]);
+    const logger = createLogger({ serviceName: "worker" });
+
+    const ok = withJobTracing("ok", async () => "done", {
+      serviceName: "worker",
+      logger,
+    });
+    const failing = withJobTracing(
+      "failing",
+      async () => {
+        throw new Error("boom");
+      },
+      { serviceName: "worker", logger }
+    );
+
+    await ok({ traceContext: { traceId: "trace-ok" } });
+    await expect(failing({})).rejects.toThrow("boom");
+
+    expect(entries.map((entry) => entry.message)).toEqual([
+      "Job started",
+      "Job completed",
+      "Job started",
+      "Job failed",
+    ]);
+    expect(entries[1].traceId).toBe("trace-ok");
+    expect(extraOf(entries[1]).durationMs).toBeGreaterThanOrEqual(0);
+    expect(extraOf(entries[3]).job).toBe("failing");
+    expect(entries[3].exception).toMatchObject({ message: "boom" });
+  });
+
+  it("should resolve the logger configured after wrapping", async () => {
+    const entries = captureLogs(["info"]);
+    const job = withJobTracing("sync-catalog", async () => "done", {
+      serviceName: "late-worker",
+    });
+    configureLogger({ serviceName: "late-worker" });
+
+    await job({});
+
+    expect(entries.map((entry) => entry.message)).toEqual(["Job started", "Job completed"]);
+    expect(entries[0].service).toBe("late-worker");
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { createLogger, configureLogger, getLogger } from "../src/logging";
-import { runWithTraceContext } from "../src/tracing";
+import { runWithTraceContext, withTracing } from "../src/tracing";
+import { captureLogs } from "./helpers";
 
 describe("createLogger", () => {
   beforeEach(() => {
@@ -134,4 +135,19 @@ describe("configureLogger and getLogger", () => {
 
     expect(console.info).toHaveBeenCalled();
   });
+
+  it("should resolve the default logger per request in withTracing", async () => {
+    const handler = withTracing(async () => new Response("ok"), {
+      serviceName: "late-service",
+      accessLog: true,
+    });
+    configureLogger({ serviceName: "late-service" });
+    const lines = captureLogs(["info"]);
+
+    await handler(new Request("http://localhost/api/users"));
+
+    expect(lines).toContainEqual(
+      expect.objectContaining({ service: "late-service", message: "Request completed" })
+    );
+  });
 });
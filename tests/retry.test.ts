@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  computeBackoff,
+  createTracedClient,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from "../src/http";
+import {
+  addSpanProcessor,
+  runWithTraceContext,
+  withSpan,
+  type Span,
+} from "../src/tracing";
+import { createLogger } from "../src/logging";
+import { captureLogs } from "./helpers";
+
+function mockResponses(...statuses: number[]) {
+  const fetchMock = vi.fn();
+  for (const status of statuses) {
+    fetchMock.mockResolvedValueOnce(new Response(`status ${status}`, { status }));
+  }
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("parseRetryAfter", () => {
+  it("should parse seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:03 GMT", now)).toBe(3000);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 00:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe("computeBackoff", () => {
+  it("should grow exponentially and respect maxDelayMs", () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 300 });
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+
+    expect(computeBackoff(1, policy)).toBe(100);
+    expect(computeBackoff(2, policy)).toBe(200);
+    expect(computeBackoff(5, policy)).toBe(300);
+
+    vi.restoreAllMocks();
+  });
+});
+
+describe("createTracedClient retry", () => {
+  const retry = { baseDelayMs: 1, maxDelayMs: 50 };
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should not retry by default", async () => {
+    const fetchMock = mockResponses(503);
+    const client = createTracedClient("http://localhost");
+
+    const response = await client.get("/api");
+
+    expect(response.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry transient failures until success", async () => {
+    const fetchMock = mockResponses(502, 503, 200);
+    const client = createTracedClient("http://localhost", { retry });
+
+    const response = await client.get("/api");
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("should return the last response after maxAttempts", async () => {
+    const fetchMock = mockResponses(503, 503, 503);
+    const client = createTracedClient("http://localhost", {
+      retry: { ...retry, maxAttempts: 2 },
+    });
+
+    const response = await client.get("/api");
+
+    expect(response.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry other statuses", async () => {
+    const fetchMock = mockResponses(500, 200);
+    const client = createTracedClient("http://localhost", { retry });
+
+    expect((await client.get("/api")).status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry network errors", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = createTracedClient("http://localhost", { retry });
+
+    expect((await client.get("/api")).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only retry POST with an idempotency key", async () => {
+    let fetchMock = mockResponses(503, 200);
+    const client = createTracedClient("http://localhost", { retry });
+
+    expect((await client.post("/orders", { id: 1 })).status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock = mockResponses(503, 200);
+    const response = await client.post(
+      "/orders",
+      { id: 1 },
+      { headers: { "Idempotency-Key": "order-1" } }
+    );
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].body).toBe(JSON.stringify({ id: 1 }));
+  });
+
+  it("should honor Retry-After", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response("busy", { status: 429, headers: { "Retry-After": "0" } })
+      )
+      .mockResolvedValueOnce(new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = createTracedClient("http://localhost", { retry });
+
+    expect((await client.get("/api")).status).toBe(200);
+
+    // Retry-After 超过 maxDelayMs 时放弃重试
+    const slowFetch = vi
+      .fn()
+      .mockResolvedValue(
+        new Response("busy", { status: 503, headers: { "Retry-After": "60" } })
+      );
+    vi.stubGlobal("fetch", slowFetch);
+    expect((await client.get("/api")).status).toBe(503);
+    expect(slowFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should allow per-call overrides", async () => {
+    const fetchMock = mockResponses(503, 200);
+    const client = createTracedClient("http://localhost", { retry });
+
+    expect((await client.get("/api", { retry: false })).status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry past the upstream deadline", async () => {
+    const fetchMock = mockResponses(503, 200);
+    const client = createTracedClient("http://localhost", {
+      retry: { baseDelayMs: 1000, maxDelayMs: 1000 },
+    });
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    const response = await runWithTraceContext(
+      { traceId: "trace-123", deadline: Date.now() + 100 },
+      () => client.get("/api")
+    );
+
+    expect(response.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should annotate each attempt in spans and logs", async () => {
+    mockResponses(503, 200);
+    const lines = captureLogs(["warn"]);
+    const spans: Span[] = [];
+    const unregister = addSpanProcessor({ onEnd: (span) => spans.push(span) });
+    const client = createTracedClient("http://user-auth", {
+      retry: { ...retry, maxDelayMs: 1 },
+    });
+
+    try {
+      await runWithTraceContext({ traceId: "trace-123" }, () =>
+        withSpan("handler", () =>
+          client.get("/api/users/42", { logger: createLogger({ serviceName: "test" }) })
+        )
+      );
+    } finally {
+      unregister();
+    }
+
+    const attempts = spans.filter((span) => span.kind === "client");
+    expect(attempts.map((span) => span.attributes["http.retry_count"])).toEqual([0, 1]);
+
+    const parent = spans.find((span) => span.name === "handler")!;
+    expect(parent.events.map((event) => event.name)).toContain("http.retry");
+
+    const retryLog = lines.find((line) => line.message === "Retrying outbound request");
+    expect(retryLog?.extra).toMatchObject({
+      method: "GET",
+      host: "user-auth",
+      route: "/api/users/[id]",
+      retryCount: 1,
+      status: 503,
+    });
+  });
+});
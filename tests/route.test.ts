@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import Fastify from "fastify";
+import {
+  addSpanProcessor,
+  getTraceContext,
+  inferRouteFromParams,
+  normalizeRoutePath,
+  resolveRoute,
+  withTracing,
+  type Span,
+} from "../src/tracing";
+import { createFastifyTracingPlugin, withPagesApiTracing } from "../src/adapters";
+import { createLogger } from "../src/logging";
+import { captureLogs } from "./helpers";
+
+function collectSpans() {
+  const spans: Span[] = [];
+  const unregister = addSpanProcessor({ onEnd: (span) => spans.push(span) });
+  return { spans, unregister };
+}
+
+describe("normalizeRoutePath", () => {
+  it("should replace ids, UUIDs and hashes", () => {
+    expect(normalizeRoutePath("/api/users/42")).toBe("/api/users/[id]");
+    expect(
+      normalizeRoutePath("/api/orders/8f2a3c4d-1b2c-4d3e-9f00-a1b2c3d4e5f6/items")
+    ).toBe("/api/orders/[uuid]/items");
+    expect(normalizeRoutePath("/static/3f786850e387550fdab836ed7e6dc881de23001b")).toBe(
+      "/static/[hash]"
+    );
+    expect(normalizeRoutePath("/api/sessions/V1StGXR8_Z5jdHi6B-myT")).toBe(
+      "/api/sessions/[id]"
+    );
+  });
+
+  it("should keep readable segments", () => {
+    expect(normalizeRoutePath("/api/health")).toBe("/api/health");
+    expect(normalizeRoutePath("/api/v2/user-profiles")).toBe("/api/v2/user-profiles");
+    expect(normalizeRoutePath("/")).toBe("/");
+  });
+});
+
+describe("inferRouteFromParams", () => {
+  it("should replace dynamic segments", () => {
+    expect(inferRouteFromParams("/api/users/42/posts/7", { id: "42", postId: "7" })).toBe(
+      "/api/users/[id]/posts/[postId]"
+    );
+  });
+
+  it("should handle catch-all and encoded segments", () => {
+    expect(inferRouteFromParams("/docs/a/b/c", { slug: ["a", "b", "c"] })).toBe(
+      "/docs/[...slug]"
+    );
+    expect(inferRouteFromParams("/api/tags/hello%20world", { tag: "hello world" })).toBe(
+      "/api/tags/[tag]"
+    );
+  });
+
+  it("should return undefined when nothing matches", () => {
+    expect(inferRouteFromParams("/api/users", { id: "42" })).toBeUndefined();
+    expect(inferRouteFromParams("/api/users", {})).toBeUndefined();
+  });
+});
+
+describe("resolveRoute", () => {
+  it("should prefer explicit route, then params, then normalizer", () => {
+    expect(resolveRoute("/api/users/42", { route: "/api/users/[userId]" })).toBe(
+      "/api/users/[userId]"
+    );
+    expect(resolveRoute("/api/users/42", {}, { userId: "42" })).toBe(
+      "/api/users/[userId]"
+    );
+    expect(resolveRoute("/api/users/42", {})).toBe("/api/users/[id]");
+    expect(resolveRoute("/api/users/42", { normalizePath: false })).toBe(
+      "/api/users/42"
+    );
+    expect(
+      resolveRoute("/api/users/42", { normalizePath: (path) => path.toUpperCase() })
+    ).toBe("/API/USERS/42");
+  });
+});
+
+describe("withTracing route", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should infer the route from Next.js params", async () => {
+    const { spans, unregister } = collectSpans();
+
+    try {
+      let route: string | undefined;
+      const handler = withTracing(
+        async (_request: Request, _context: { params: Promise<{ id: string }> }) => {
+          route = getTraceContext().route;
+          return Response.json({ ok: true });
+        },
+        { serviceName: "test" }
+      );
+
+      await handler(new Request("http://localhost/api/users/u_123"), {
+        params: Promise.resolve({ id: "u_123" }),
+      });
+
+      expect(route).toBe("/api/users/[id]");
+      expect(spans[0].name).toBe("GET /api/users/[id]");
+      expect(spans[0].attributes["http.route"]).toBe("/api/users/[id]");
+      expect(spans[0].attributes["http.target"]).toBe("/api/users/u_123");
+    } finally {
+      unregister();
+    }
+  });
+
+  it("should fall back to the normalizer and log the route", async () => {
+    const lines = captureLogs(["info"]);
+
+    const handler = withTracing(async () => Response.json({ ok: true }), {
+      serviceName: "test",
+      logger: createLogger({ serviceName: "test" }),
+      accessLog: true,
+    });
+
+    await handler(new Request("http://localhost/api/orders/12345"));
+
+    expect(lines[0].extra).toMatchObject({
+      path: "/api/orders/12345",
+      route: "/api/orders/[id]",
+    });
+  });
+});
+
+describe("createFastifyTracingPlugin route", () => {
+  it("should use the fastify route template", async () => {
+    const { spans, unregister } = collectSpans();
+    const app = Fastify();
+    await app.register(createFastifyTracingPlugin({ serviceName: "fastify-svc" }));
+    app.get("/api/users/:id", async () => ({ route: getTraceContext().route }));
+
+    try {
+      const response = await app.inject({ method: "GET", url: "/api/users/readable-name" });
+
+      expect(response.json().route).toBe("/api/users/:id");
+      expect(spans.at(-1)?.name).toBe("GET /api/users/:id");
+    } finally {
+      unregister();
+      await app.close();
+    }
+  });
+});
+
+describe("withPagesApiTracing route", () => {
+  it("should infer the route from req.query", async () => {
+    const handler = withPagesApiTracing(
+      (_req: IncomingMessage & { query?: Record<string, string> }, res) => {
+        res.end(getTraceContext().route);
+      },
+      { serviceName: "pages-svc" }
+    );
+    // Next.js 会把动态段参数与查询参数合并到 req.query
+    const server = createServer((req, res) => {
+      handler(Object.assign(req, { query: { userId: "alice", tab: "posts" } }), res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/api/users/alice?tab=posts`);
+      expect(await response.text()).toBe("/api/users/[userId]");
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createSampler,
+  createRuleSampler,
+  addSpanProcessor,
+  generateTraceId,
+  getTraceContext,
+  getTraceHeaders,
+  parseTraceContextFromHeaders,
+  parseTraceparent,
+  runWithTraceContext,
+  withSpan,
+  withTracing,
+  type Span,
+} from "../src/tracing";
+import { createLogger } from "../src/logging";
+
+const input = (traceId: string, method = "GET", path = "/api") => ({
+  traceId,
+  method,
+  path,
+});
+
+describe("createSampler", () => {
+  it("should support always and never", () => {
+    expect(createSampler("always")(input("t"))).toBe(true);
+    expect(createSampler("never")(input("t"))).toBe(false);
+  });
+
+  it("should sample by ratio deterministically", () => {
+    const sampler = createSampler(0.3);
+    const ids = Array.from({ length: 1000 }, () => generateTraceId("svc"));
+    const sampled = ids.filter((id) => sampler(input(id)));
+
+    expect(sampled.length).toBeGreaterThan(200);
+    expect(sampled.length).toBeLessThan(400);
+    for (const id of ids.slice(0, 50)) {
+      expect(createSampler({ ratio: 0.3 })(input(id))).toBe(sampler(input(id)));
+    }
+  });
+
+  it("should rate limit", () => {
+    vi.useFakeTimers();
+    const sampler = createSampler({ rateLimit: 2 });
+
+    expect([1, 2, 3].map(() => sampler(input("t")))).toEqual([true, true, false]);
+    vi.advanceTimersByTime(500);
+    expect(sampler(input("t"))).toBe(true);
+    vi.useRealTimers();
+  });
+});
+
+describe("createRuleSampler", () => {
+  it("should match rules by method and path", () => {
+    const sampler = createRuleSampler({
+      rules: [
+        { path: "/api/health", sampler: "never" },
+        { method: "post", path: /^\/api\/chat/, sampler: "always" },
+      ],
+      fallback: "never",
+    });
+
+    expect(sampler(input("t", "GET", "/api/health"))).toBe(false);
+    expect(sampler(input("t", "POST", "/api/chat/stream"))).toBe(true);
+    expect(sampler(input("t", "GET", "/api/chat/stream"))).toBe(false);
+  });
+});
+
+describe("sampling propagation", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should parse sampled decision from headers", () => {
+    expect(
+      parseTraceContextFromHeaders(new Headers({ "X-Trace-Sampled": "0" })).sampled
+    ).toBe(false);
+    expect(
+      parseTraceContextFromHeaders(
+        new Headers({
+          traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00",
+        })
+      ).sampled
+    ).toBe(false);
+  });
+
+  it("should emit sampled decision", () => {
+    runWithTraceContext({ traceId: "trace-1", sampled: false }, () => {
+      const headers = getTraceHeaders();
+      expect(headers["X-Trace-Sampled"]).toBe("0");
+      expect(parseTraceparent(headers.traceparent)?.traceFlags).toBe(0);
+    });
+  });
+
+  it("should store decision in withTracing context", async () => {
+    let sampled: boolean | undefined;
+    const handler = withTracing(
+      async () => {
+        sampled = getTraceContext().sampled;
+        return Response.json({ ok: true });
+      },
+      {
+        serviceName: "test",
+        sampler: createRuleSampler({
+          rules: [{ path: "/api/health", sampler: "never" }],
+        }),
+      }
+    );
+
+    await handler(new Request("http://localhost/api/health"));
+    expect(sampled).toBe(false);
+
+    await handler(new Request("http://localhost/api/users"));
+    expect(sampled).toBe(true);
+  });
+
+  it("should respect upstream decision", async () => {
+    let sampled: boolean | undefined;
+    const handler = withTracing(
+      async () => {
+        sampled = getTraceContext().sampled;
+        return Response.json({ ok: true });
+      },
+      { serviceName: "test", sampler: "never" }
+    );
+
+    await handler(
+      new Request("http://localhost/api", {
+        headers: { "X-Trace-Sampled": "1" },
+      })
+    );
+    expect(sampled).toBe(true);
+  });
+
+  it("should skip unsampled spans in processors", () => {
+    const ended: Span[] = [];
+    const unregister = addSpanProcessor({ onEnd: (span) => ended.push(span) });
+
+    runWithTraceContext({ traceId: "t", sampled: false }, () => {
+      withSpan("dropped", () => {});
+    });
+    runWithTraceContext({ traceId: "t", sampled: true }, () => {
+      withSpan("kept", () => {});
+    });
+    unregister();
+
+    expect(ended.map((s) => s.name)).toEqual(["kept"]);
+  });
+
+  it("should use sampled level in logger", () => {
+    const debug = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const logger = createLogger({
+      serviceName: "test",
+      level: "info",
+      sampledLevel: "debug",
+    });
+
+    runWithTraceContext({ traceId: "t", sampled: false }, () => {
+      logger.debug("hidden");
+    });
+    runWithTraceContext({ traceId: "t", sampled: true }, () => {
+      logger.debug("shown");
+    });
+
+    expect(debug).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(debug.mock.calls[0][0] as string).sampled).toBe(true);
+  });
+});
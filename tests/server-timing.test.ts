@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  formatServerTiming,
+  isServerTimingEnabled,
+  recordServerTiming,
+  startServerTimer,
+  withSpan,
+  withTracing,
+} from "../src/tracing";
+import { tracedFetch } from "../src/http";
+
+describe("formatServerTiming", () => {
+  it("should format entries with total", () => {
+    expect(
+      formatServerTiming(
+        [
+          { name: "db", durationMs: 12.345 },
+          { name: "HTTP GET", durationMs: 3 },
+          { name: "cache", durationMs: 1, description: 'hit "users"' },
+        ],
+        { totalMs: 20 }
+      )
+    ).toBe(
+      'db;dur=12.35, HTTP_GET;dur=3;desc="HTTP GET", cache;dur=1;desc="hit \\"users\\"", total;dur=20'
+    );
+  });
+
+  it("should keep slowest entries when capped", () => {
+    const header = formatServerTiming(
+      [
+        { name: "a", durationMs: 1 },
+        { name: "b", durationMs: 30 },
+        { name: "c", durationMs: 2 },
+        { name: "d", durationMs: 20 },
+      ],
+      { maxEntries: 2 }
+    );
+
+    expect(header).toBe("b;dur=30, d;dur=20");
+  });
+});
+
+describe("isServerTimingEnabled", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should be disabled without option", () => {
+    expect(isServerTimingEnabled(undefined)).toBe(false);
+  });
+
+  it("should respect SERVER_TIMING env", () => {
+    vi.stubEnv("SERVER_TIMING", "false");
+    expect(isServerTimingEnabled(true)).toBe(false);
+
+    vi.stubEnv("SERVER_TIMING", "true");
+    expect(isServerTimingEnabled(true)).toBe(true);
+  });
+});
+
+describe("withTracing serverTiming", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("should emit Server-Timing from spans and timers", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("ok")));
+
+    const handler = withTracing(
+      async () => {
+        await withSpan("db", async () => {});
+        await tracedFetch("http://user-auth/api/users");
+        const stop = startServerTimer("render");
+        stop();
+        recordServerTiming("cache", 1.5, "miss");
+        return Response.json({ ok: true });
+      },
+      { serviceName: "test", serverTiming: true }
+    );
+
+    const response = await handler(new Request("http://localhost/api"));
+    const header = response.headers.get("Server-Timing")!;
+
+    expect(header).toMatch(/^db;dur=\d+/);
+    expect(header).toContain('HTTP_GET;dur=');
+    expect(header).toContain("render;dur=");
+    expect(header).toContain('cache;dur=1.5;desc="miss"');
+    expect(header).toMatch(/total;dur=\d+(\.\d+)?$/);
+  });
+
+  it("should not emit Server-Timing by default", async () => {
+    const handler = withTracing(async () => Response.json({ ok: true }), {
+      serviceName: "test",
+    });
+
+    const response = await handler(new Request("http://localhost/api"));
+
+    expect(response.headers.has("Server-Timing")).toBe(false);
+  });
+
+  it("should cap entries", async () => {
+    const handler = withTracing(
+      async () => {
+        for (let i = 0; i < 5; i++) {
+          recordServerTiming(`step${i}`, i);
+        }
+        return Response.json({ ok: true });
+      },
+      { serviceName: "test", serverTiming: { maxEntries: 2 } }
+    );
+
+    const response = await handler(new Request("http://localhost/api"));
+
+    expect(response.headers.get("Server-Timing")).toMatch(
+      /^step3;dur=3, step4;dur=4, total;dur=/
+    );
+  });
+});
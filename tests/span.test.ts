@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  startSpan,
+  endSpan,
+  withSpan,
+  getActiveSpan,
+  getSpanId,
+  generateSpanId,
+  runWithTraceContext,
+  getTraceHeaders,
+  withTracing,
+} from "../src/tracing";
+import { createLogger } from "../src/logging";
+
+describe("generateSpanId", () => {
+  it("should generate 16 hex chars", () => {
+    expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describe("startSpan", () => {
+  it("should create span with own id", () => {
+    const span = startSpan("work", { attributes: { key: "value" } });
+
+    expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(span.kind).toBe("internal");
+    expect(span.attributes.key).toBe("value");
+    expect(span.isEnded()).toBe(false);
+  });
+
+  it("should inherit trace id and parent from context", () => {
+    runWithTraceContext(
+      { traceId: "trace-123", spanId: "aaaaaaaaaaaaaaaa" },
+      () => {
+        const span = startSpan("child");
+        expect(span.traceId).toBe("trace-123");
+        expect(span.parentSpanId).toBe("aaaaaaaaaaaaaaaa");
+      }
+    );
+  });
+
+  it("should record attributes, events and status until ended", () => {
+    const span = startSpan("work");
+
+    span.setAttribute("a", 1).addEvent("checkpoint").setStatus("ok");
+    endSpan(span, span.startTime + 5);
+    span.setAttribute("b", 2);
+    span.end(span.startTime + 100);
+
+    expect(span.attributes).toEqual({ a: 1 });
+    expect(span.events.map((e) => e.name)).toEqual(["checkpoint"]);
+    expect(span.status.code).toBe("ok");
+    expect(span.endTime).toBe(span.startTime + 5);
+    expect(span.durationMs()).toBe(5);
+  });
+});
+
+describe("withSpan", () => {
+  it("should nest spans via context", async () => {
+    await runWithTraceContext({ traceId: "trace-123" }, async () => {
+      await withSpan("outer", async (outer) => {
+        expect(getActiveSpan()).toBe(outer);
+
+        await withSpan("inner", async (inner) => {
+          expect(inner.parentSpanId).toBe(outer.spanId);
+          expect(getSpanId()).toBe(inner.spanId);
+        });
+
+        expect(getSpanId()).toBe(outer.spanId);
+      });
+    });
+  });
+
+  it("should end span and return value", async () => {
+    let captured: ReturnType<typeof startSpan> | undefined;
+    const result = await withSpan("work", async (span) => {
+      captured = span;
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(captured?.isEnded()).toBe(true);
+  });
+
+  it("should mark span as error on throw", async () => {
+    let captured: ReturnType<typeof startSpan> | undefined;
+
+    await expect(
+      withSpan("work", async (span) => {
+        captured = span;
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(captured?.status).toEqual({ code: "error", message: "boom" });
+    expect(captured?.events[0].name).toBe("exception");
+    expect(captured?.isEnded()).toBe(true);
+  });
+
+  it("should support sync functions", () => {
+    const result = withSpan("sync", (span) => span.spanId);
+    expect(result).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("should propagate current span id downstream", () => {
+    runWithTraceContext({ traceId: "trace-123", requestId: "req-1" }, () => {
+      withSpan("call", (span) => {
+        expect(getTraceHeaders()["X-Parent-Span-ID"]).toBe(span.spanId);
+        expect(getTraceHeaders().traceparent).toContain(`-${span.spanId}-`);
+      });
+    });
+  });
+});
+
+describe("span integration", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should include span id in logs", () => {
+    const logger = createLogger({ serviceName: "test" });
+    let output = "";
+    vi.spyOn(console, "info").mockImplementation((msg) => {
+      output = msg;
+    });
+
+    withSpan("work", (span) => {
+      logger.info("inside span");
+      expect(JSON.parse(output).spanId).toBe(span.spanId);
+    });
+  });
+
+  it("should create server span in withTracing", async () => {
+    let serverSpan: ReturnType<typeof startSpan> | undefined;
+    const handler = withTracing(
+      async () => {
+        serverSpan = getActiveSpan();
+        return Response.json({ ok: true });
+      },
+      { serviceName: "test" }
+    );
+
+    await handler(
+      new Request("http://localhost/api/users", {
+        headers: { "X-Parent-Span-ID": "upstream-span" },
+      })
+    );
+
+    expect(serverSpan?.kind).toBe("server");
+    expect(serverSpan?.name).toBe("GET /api/users");
+    expect(serverSpan?.parentSpanId).toBe("upstream-span");
+    expect(serverSpan?.attributes["http.status_code"]).toBe(200);
+    expect(serverSpan?.isEnded()).toBe(true);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  addSpanProcessor,
+  getTraceContext,
+  isStreamingResponse,
+  withTracing,
+  type Span,
+} from "../src/tracing";
+import { createLogger } from "../src/logging";
+import { captureLogs, extraOf } from "./helpers";
+
+function collectSpans() {
+  const spans: Span[] = [];
+  const unregister = addSpanProcessor({ onEnd: (span) => spans.push(span) });
+  return { spans, unregister };
+}
+
+function sseResponse(
+  events: string[],
+  options: { delayMs?: number; failAfter?: number; seen?: Array<string | undefined> } = {}
+): Response {
+  const encoder = new TextEncoder();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      options.seen?.push(getTraceContext().traceId);
+      if (options.failAfter !== undefined && index === options.failAfter) {
+        controller.error(new Error("upstream model failed"));
+        return;
+      }
+      if (index >= events.length) {
+        controller.close();
+        return;
+      }
+      if (options.delayMs) {
+        await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+      }
+      controller.enqueue(encoder.encode(`data: ${events[index++]}\n\n`));
+    },
+  });
+  return new Response(body, {
+    headers: { "Content-Type": "text/event-stream; charset=utf-8" },
+  });
+}
+
+describe("isStreamingResponse", () => {
+  it("should detect SSE, NDJSON and AI SDK data streams", () => {
+    expect(isStreamingResponse(sseResponse([]))).toBe(true);
+    expect(
+      isStreamingResponse(
+        new Response("{}\n", { headers: { "Content-Type": "application/x-ndjson" } })
+      )
+    ).toBe(true);
+    expect(
+      isStreamingResponse(
+        new Response("0:\"hi\"\n", { headers: { "X-Vercel-AI-Data-Stream": "v1" } })
+      )
+    ).toBe(true);
+    expect(isStreamingResponse(Response.json({ ok: true }))).toBe(false);
+    expect(
+      isStreamingResponse(
+        new Response(null, { status: 204, headers: { "Content-Type": "text/event-stream" } })
+      )
+    ).toBe(false);
+  });
+});
+
+describe("withTracing streaming", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const logger = createLogger({ serviceName: "agentic-chat" });
+
+  it("should record stream stats after the body ends", async () => {
+    const lines = captureLogs();
+    const { spans, unregister } = collectSpans();
+    const handler = withTracing(async () => sseResponse(["a", "b", "c"], { delayMs: 10 }), {
+      serviceName: "agentic-chat",
+      logger,
+      accessLog: true,
+    });
+
+    try {
+      const response = await handler(new Request("http://localhost/api/chat"));
+      expect(spans).toHaveLength(0);
+      expect(lines).toHaveLength(0);
+
+      const text = await response.text();
+      expect(text).toBe("data: a\n\ndata: b\n\ndata: c\n\n");
+    } finally {
+      unregister();
+    }
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].attributes).toMatchObject({
+      "stream.bytes": 27,
+      "stream.chunks": 3,
+      "stream.aborted": false,
+    });
+    expect(spans[0].attributes["stream.duration_ms"]).toBeGreaterThanOrEqual(
+      spans[0].attributes["stream.first_byte_ms"] as number
+    );
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].message).toBe("Request completed");
+    expect(lines[0].traceId).toBeDefined();
+    expect(lines[0].extra).toMatchObject({ status: 200, responseSize: 27, chunks: 3 });
+    const extra = extraOf(lines[0]);
+    expect(extra.durationMs).toBeGreaterThanOrEqual(20);
+    expect(extra.firstByteMs).toBeLessThanOrEqual(extra.durationMs as number);
+  });
+
+  it("should keep the trace context inside the producer", async () => {
+    const seen: Array<string | undefined> = [];
+    let traceId: string | undefined;
+    const handler = withTracing(
+      async () => {
+        traceId = getTraceContext().traceId;
+        return sseResponse(["a", "b"], { seen });
+      },
+      { serviceName: "agentic-chat" }
+    );
+
+    const response = await handler(new Request("http://localhost/api/chat"));
+    await response.text();
+
+    expect(seen.length).toBeGreaterThan(0);
+    expect(seen.every((id) => id === traceId)).toBe(true);
+  });
+
+  it("should record client disconnects", async () => {
+    const lines = captureLogs();
+    const { spans, unregister } = collectSpans();
+    const handler = withTracing(async () => sseResponse(["a", "b", "c"]), {
+      serviceName: "agentic-chat",
+      logger,
+      accessLog: true,
+    });
+
+    try {
+      const response = await handler(new Request("http://localhost/api/chat"));
+      const reader = response.body!.getReader();
+      await reader.read();
+      await reader.cancel();
+    } finally {
+      unregister();
+    }
+
+    expect(spans[0].attributes).toMatchObject({ "stream.aborted": true, "stream.chunks": 1 });
+    expect(lines[0].extra).toMatchObject({ aborted: true, chunks: 1 });
+  });
+
+  it("should log stream failures", async () => {
+    const lines = captureLogs();
+    const { spans, unregister } = collectSpans();
+    const handler = withTracing(async () => sseResponse(["a", "b"], { failAfter: 1 }), {
+      serviceName: "agentic-chat",
+      logger,
+    });
+
+    try {
+      const response = await handler(new Request("http://localhost/api/chat"));
+      await expect(response.text()).rejects.toThrow("upstream model failed");
+    } finally {
+      unregister();
+    }
+
+    expect(spans[0].status.code).toBe("error");
+    const failure = lines.find((line) => line.message === "Response stream failed");
+    expect(failure?.extra).toMatchObject({ chunks: 1 });
+    expect(failure?.traceId).toBe(spans[0].traceId);
+  });
+
+  it("should end non-streaming responses immediately", async () => {
+    const { spans, unregister } = collectSpans();
+
+    try {
+      const json = withTracing(async () => Response.json({ ok: true }), {
+        serviceName: "agentic-chat",
+      });
+      await json(new Request("http://localhost/api/users"));
+      expect(spans).toHaveLength(1);
+
+      const disabled = withTracing(async () => sseResponse(["a"]), {
+        serviceName: "agentic-chat",
+        streaming: false,
+      });
+      await disabled(new Request("http://localhost/api/chat"));
+      expect(spans).toHaveLength(2);
+      expect(spans[1].attributes["stream.chunks"]).toBeUndefined();
+    } finally {
+      unregister();
+    }
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createTracedClient, HttpTimeoutError, tracedFetch } from "../src/http";
+import { runWithTraceContext } from "../src/tracing";
+import { createFetchStub, useFixtures, type FetchStub } from "../src/testing";
+
+describe("createFetchStub", () => {
+  let stub: FetchStub | undefined;
+
+  afterEach(() => {
+    stub?.restore();
+    stub = undefined;
+  });
+
+  it("should match routes and pass path params", async () => {
+    stub = createFetchStub();
+    stub
+      .on("GET /users/:id", (_req, { id }) => ({ body: { id } }))
+      .on("POST http://user-auth/users", { status: 201, body: "created" })
+      .on(/\/health$/, new Response("ok"));
+    stub.install();
+
+    expect(await (await fetch("http://user-auth/users/42?x=1")).json()).toEqual({ id: "42" });
+    const created = await fetch("http://user-auth/users", { method: "POST", body: "{}" });
+    expect(created.status).toBe(201);
+    expect(await created.text()).toBe("created");
+    // 同一个 Response 可以多次命中
+    expect(await (await fetch("http://user-auth/health")).text()).toBe("ok");
+    expect(await (await fetch("http://billing/health")).text()).toBe("ok");
+
+    expect(stub.calls("POST /users")[0].body).toBe("{}");
+    stub.assertNoUnmatched();
+    stub.assertAllRoutesCalled();
+  });
+
+  it("should keep ports in origin routes literal", async () => {
+    stub = createFetchStub({ onUnmatched: "404" });
+    stub.on("GET http://user-auth:8000/users/:id", (_req, { id }) => ({ body: { id } }));
+
+    const response = await stub.fetch("http://user-auth:8000/users/42");
+    const otherPort = await stub.fetch("http://user-auth:9000/users/42");
+
+    expect(await response.json()).toEqual({ id: "42" });
+    expect(otherPort.status).toBe(404);
+  });
+
+  it("should serve once routes a single time", async () => {
+    stub = createFetchStub({ onUnmatched: "404" });
+    stub.once("GET /token", { body: { token: "a" } }).on("GET /token", { body: { token: "b" } });
+
+    const first = await stub.fetch("http://user-auth/token");
+    const second = await stub.fetch("http://user-auth/token");
+
+    expect(await first.json()).toEqual({ token: "a" });
+    expect(await second.json()).toEqual({ token: "b" });
+  });
+
+  it("should record trace headers from tracedFetch and clients", async () => {
+    stub = createFetchStub();
+    stub.on("GET */users/:id", { body: { id: "42" } });
+    stub.install();
+    const api = createTracedClient("http://user-auth/api");
+
+    await runWithTraceContext({ traceId: "trace-123", spanId: "span-1" }, async () => {
+      await tracedFetch("http://user-auth/users/1", { timeoutMs: 500 });
+      await api.getJson("/users/42");
+    });
+
+    const [direct, viaClient] = stub.requests;
+    expect(direct.trace).toMatchObject({ traceId: "trace-123", timeoutMs: 500 });
+    expect(direct.trace.traceparent).toBeDefined();
+    expect(viaClient.url.pathname).toBe("/api/users/42");
+    expect(viaClient.trace.traceId).toBe("trace-123");
+  });
+
+  it("should let timeouts abort delayed responses", async () => {
+    stub = createFetchStub();
+    stub.on("GET /slow", { delayMs: 5000 });
+    stub.install();
+
+    await expect(tracedFetch("http://user-auth/slow", { timeoutMs: 20 })).rejects.toBeInstanceOf(
+      HttpTimeoutError
+    );
+  });
+
+  it("should simulate network errors", async () => {
+    stub = createFetchStub();
+    stub.on("GET /down", { error: new TypeError("fetch failed") });
+
+    await expect(stub.fetch("http://user-auth/down")).rejects.toThrow("fetch failed");
+  });
+
+  it("should report unmatched calls and uncalled routes", async () => {
+    stub = createFetchStub();
+    stub.on("GET /users/:id", { body: {} }).on("DELETE /users/:id", { status: 204 });
+
+    await expect(stub.fetch("http://user-auth/orders")).rejects.toThrow(
+      "Unmatched fetch: GET http://user-auth/orders"
+    );
+    expect(() => stub!.assertNoUnmatched()).toThrow("GET http://user-auth/orders");
+    expect(() => stub!.assertAllRoutesCalled()).toThrow("GET /users/:id");
+
+    stub.reset();
+    expect(stub.requests).toHaveLength(0);
+    stub.assertNoUnmatched();
+  });
+
+  it("should return 404 for unmatched calls when configured", async () => {
+    stub = createFetchStub({ onUnmatched: "404" });
+
+    const response = await stub.fetch("http://user-auth/orders");
+
+    expect(response.status).toBe(404);
+    expect(stub.unmatched).toHaveLength(1);
+  });
+});
+
+describe("useFixtures", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("should record responses and replay them", async () => {
+    dir = mkdtempSync(join(tmpdir(), "observability-fixtures-"));
+    const path = join(dir, "nested", "user-auth.json");
+    let count = 0;
+    const upstream = (async () =>
+      Response.json(
+        { count: ++count },
+        { headers: { "Set-Cookie": "session=secret", "X-Request-ID": `auth_req_${count}` } }
+      )) as typeof fetch;
+
+    const recorder = createFetchStub();
+    const recording = useFixtures(recorder, { path, mode: "record", fetch: upstream });
+    await recorder.fetch("http://user-auth/api/users?page=1");
+    await recorder.fetch("http://user-auth/api/users?page=1");
+    recording.save();
+
+    const saved = JSON.parse(readFileSync(path, "utf-8"));
+    expect(saved).toHaveLength(2);
+    expect(saved[0]).toMatchObject({ method: "GET", url: "http://user-auth/api/users?page=1" });
+    expect(saved[0].headers["set-cookie"]).toBeUndefined();
+
+    const player = createFetchStub();
+    useFixtures(player, { path, mode: "replay" });
+    const responses = await Promise.all(
+      [1, 2, 3].map(() => player.fetch("http://user-auth/api/users?page=1"))
+    );
+
+    expect(await Promise.all(responses.map((r) => r.json()))).toEqual([
+      { count: 1 },
+      { count: 2 },
+      { count: 2 },
+    ]);
+    expect(responses[0].headers.get("X-Request-ID")).toBe("auth_req_1");
+    await expect(player.fetch("http://user-auth/api/users?page=2")).rejects.toThrow(
+      "Unmatched fetch"
+    );
+    expect(count).toBe(2);
+  });
+
+  it("should record binary bodies without encoding headers", async () => {
+    dir = mkdtempSync(join(tmpdir(), "observability-fixtures-"));
+    const path = join(dir, "assets.json");
+    const bytes = new Uint8Array([0, 255, 128, 10]);
+    const upstream = (async () =>
+      new Response(bytes, {
+        headers: { "Content-Encoding": "gzip", "Content-Length": "99", "Content-Type": "image/png" },
+      })) as typeof fetch;
+
+    const recorder = createFetchStub();
+    const recording = useFixtures(recorder, { path, mode: "record", fetch: upstream });
+    await recorder.fetch("http://assets/logo.png");
+    recording.save();
+
+    const [saved] = JSON.parse(readFileSync(path, "utf-8"));
+    expect(Object.keys(saved.headers)).toEqual(["content-type"]);
+
+    const player = createFetchStub();
+    useFixtures(player, { path, mode: "replay" });
+    const response = await player.fetch("http://assets/logo.png");
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(bytes);
+  });
+
+  it("should refuse to record through an installed stub", () => {
+    const stub = createFetchStub();
+    stub.install();
+    try {
+      expect(() => useFixtures(stub, { path: "unused.json", mode: "record" })).toThrow(
+        "pass options.fetch"
+      );
+    } finally {
+      stub.restore();
+    }
+  });
+});
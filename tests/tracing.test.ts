@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
   generateTraceId,
   generateRequestId,
@@ -10,7 +10,14 @@ import {
   parseTraceContextFromHeaders,
   getTraceHeaders,
   withTracing,
+  parseTraceparent,
+  formatTraceparent,
+  toW3CTraceId,
+  fromW3CTraceId,
+  toW3CSpanId,
 } from "../src/tracing";
+import { createLogger } from "../src/logging";
+import { captureLogs } from "./helpers";
 
 describe("generateTraceId", () => {
   it("should generate valid trace id format", () => {
@@ -136,6 +143,33 @@ describe("parseTraceContextFromHeaders", () => {
     expect(ctx.traceId).toBeUndefined();
     expect(ctx.parentSpanId).toBeUndefined();
   });
+
+  it("should convert the upstream timeout into a deadline when enabled", () => {
+    const now = Date.now();
+    const headers = new Headers({ "X-Request-Timeout-Ms": "1500" });
+
+    expect(parseTraceContextFromHeaders(headers).deadline).toBeUndefined();
+    expect(
+      parseTraceContextFromHeaders(headers, { deadline: true }).deadline
+    ).toBeGreaterThanOrEqual(now + 1500);
+    expect(
+      parseTraceContextFromHeaders(new Headers({ "X-Request-Timeout-Ms": "soon" }), {
+        deadline: true,
+      }).deadline
+    ).toBeUndefined();
+  });
+
+  it("should clamp the upstream timeout to the minimum budget", () => {
+    const now = Date.now();
+    const headers = new Headers({ "X-Request-Timeout-Ms": "0" });
+
+    expect(
+      parseTraceContextFromHeaders(headers, { deadline: true }).deadline
+    ).toBeGreaterThanOrEqual(now + 100);
+    expect(
+      parseTraceContextFromHeaders(headers, { deadline: { minTimeoutMs: 500 } }).deadline
+    ).toBeGreaterThanOrEqual(now + 500);
+  });
 });
 
 describe("getTraceHeaders", () => {
@@ -151,9 +185,43 @@ describe("getTraceHeaders", () => {
       expect(headers["X-Parent-Span-ID"]).toBe("req-456");
     });
   });
+
+  it("should forward the remaining deadline budget", () => {
+    runWithTraceContext({ traceId: "trace-123", deadline: Date.now() + 1000 }, () => {
+      const remaining = Number(getTraceHeaders()["X-Request-Timeout-Ms"]);
+      expect(remaining).toBeGreaterThan(0);
+      expect(remaining).toBeLessThanOrEqual(1000);
+    });
+  });
 });
 
 describe("withTracing", () => {
+  it("should not expose the deadline budget in response headers", async () => {
+    const handler = withTracing(async () => new Response("ok"), { serviceName: "test" });
+
+    const response = await handler(
+      new Request("http://localhost/api", { headers: { "X-Request-Timeout-Ms": "1500" } })
+    );
+
+    expect(response.headers.has("X-Request-Timeout-Ms")).toBe(false);
+  });
+
+  it("should only honour the upstream deadline when enabled", async () => {
+    const handler = (upstreamDeadline?: boolean) =>
+      withTracing(async () => Response.json({ deadline: getTraceContext().deadline }), {
+        serviceName: "test",
+        upstreamDeadline,
+      });
+    const request = () =>
+      new Request("http://localhost/api", { headers: { "X-Request-Timeout-Ms": "0" } });
+
+    const ignored = await (await handler()(request())).json();
+    const honoured = await (await handler(true)(request())).json();
+
+    expect(ignored.deadline).toBeUndefined();
+    expect(honoured.deadline).toBeGreaterThan(Date.now());
+  });
+
   it("should wrap handler with tracing", async () => {
     const handler = withTracing(
       async () => Response.json({ ok: true }),
@@ -195,3 +263,258 @@ describe("withTracing", () => {
     expect(response.headers.get("X-Trace-ID")).toContain("-tst");
   });
 });
+
+describe("W3C Trace Context", () => {
+  const TRACEPARENT =
+    "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+  it("should parse valid traceparent", () => {
+    const result = parseTraceparent(TRACEPARENT);
+
+    expect(result).toEqual({
+      version: "00",
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      parentId: "00f067aa0ba902b7",
+      traceFlags: 1,
+    });
+  });
+
+  it("should reject invalid traceparent", () => {
+    expect(parseTraceparent("garbage")).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${"0".repeat(32)}-00f067aa0ba902b7-01`)
+    ).toBeUndefined();
+    expect(
+      parseTraceparent("ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01")
+    ).toBeUndefined();
+    expect(
+      parseTraceparent("00-4BF92F3577B34DA6A3CE929D0E0E4736-00F067AA0BA902B7-01")
+    ).toBeUndefined();
+  });
+
+  it("should map optima trace id deterministically", () => {
+    const traceId = "67890abc-f1e2d3c4b5a6-auth";
+    const w3c = toW3CTraceId(traceId);
+
+    expect(w3c).toMatch(/^[0-9a-f]{32}$/);
+    expect(w3c.startsWith("67890abcf1e2d3c4b5a6")).toBe(true);
+    expect(toW3CTraceId(traceId)).toBe(w3c);
+    expect(toW3CTraceId("67890abc-f1e2d3c4b5a6-chat")).not.toBe(w3c);
+  });
+
+  it("should round trip W3C trace id", () => {
+    const w3c = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const traceId = fromW3CTraceId(w3c);
+
+    expect(parseTraceId(traceId).valid).toBe(true);
+    expect(toW3CTraceId(traceId)).toBe(w3c);
+  });
+
+  it("should hash arbitrary trace ids", () => {
+    expect(toW3CTraceId("upstream-trace-123")).toMatch(/^[0-9a-f]{32}$/);
+    expect(toW3CSpanId("req_abc")).toMatch(/^[0-9a-f]{16}$/);
+    expect(toW3CSpanId("00f067aa0ba902b7")).toBe("00f067aa0ba902b7");
+  });
+
+  it("should format traceparent", () => {
+    const value = formatTraceparent("67890abc-f1e2d3c4b5a6-auth", "req_1", 0);
+
+    expect(value).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-00$/);
+  });
+
+  it("should parse traceparent when no optima headers", () => {
+    const ctx = parseTraceContextFromHeaders(
+      new Headers({ traceparent: TRACEPARENT, tracestate: "vendor=abc" })
+    );
+
+    expect(toW3CTraceId(ctx.traceId!)).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(ctx.parentSpanId).toBe("00f067aa0ba902b7");
+    expect(ctx.traceState).toBe("vendor=abc");
+    expect(ctx.traceFlags).toBe(1);
+  });
+
+  it("should prefer optima headers by default", () => {
+    const ctx = parseTraceContextFromHeaders(
+      new Headers({
+        "X-Trace-ID": "trace-123",
+        "X-Parent-Span-ID": "span-456",
+        traceparent: TRACEPARENT,
+      })
+    );
+
+    expect(ctx.traceId).toBe("trace-123");
+    expect(ctx.parentSpanId).toBe("span-456");
+  });
+
+  it("should only keep W3C fields from a traceparent of the same trace", () => {
+    const headers = (traceparent: string) =>
+      new Headers({
+        "X-Trace-ID": "trace-123",
+        traceparent,
+        tracestate: "vendor=abc",
+      });
+
+    const other = parseTraceContextFromHeaders(headers(TRACEPARENT));
+    const same = parseTraceContextFromHeaders(
+      headers(formatTraceparent("trace-123", "span-456", 1))
+    );
+
+    expect(other).toEqual({ traceId: "trace-123" });
+    expect(same).toMatchObject({
+      traceId: "trace-123",
+      sampled: true,
+      traceState: "vendor=abc",
+      traceFlags: 1,
+    });
+  });
+
+  it("should prefer traceparent with w3c precedence", () => {
+    const ctx = parseTraceContextFromHeaders(
+      new Headers({
+        "X-Trace-ID": "trace-123",
+        "X-Parent-Span-ID": "span-456",
+        traceparent: TRACEPARENT,
+      }),
+      { precedence: "w3c" }
+    );
+
+    expect(toW3CTraceId(ctx.traceId!)).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(ctx.parentSpanId).toBe("00f067aa0ba902b7");
+  });
+
+  it("should emit traceparent and tracestate", () => {
+    runWithTraceContext(
+      {
+        traceId: "67890abc-f1e2d3c4b5a6-auth",
+        requestId: "auth_f1e2d3c4b5a6",
+        traceState: "vendor=abc",
+      },
+      () => {
+        const headers = getTraceHeaders();
+        const parsed = parseTraceparent(headers.traceparent);
+
+        expect(parsed?.traceId).toBe(toW3CTraceId("67890abc-f1e2d3c4b5a6-auth"));
+        expect(parsed?.traceFlags).toBe(1);
+        expect(headers.tracestate).toBe("vendor=abc");
+      }
+    );
+  });
+
+  it("should continue W3C trace in withTracing", async () => {
+    let innerTraceparent: string | undefined;
+    const handler = withTracing(
+      async () => {
+        innerTraceparent = getTraceHeaders().traceparent;
+        return Response.json({ ok: true });
+      },
+      { serviceName: "test" }
+    );
+
+    await handler(
+      new Request("http://localhost/api", {
+        headers: { traceparent: TRACEPARENT },
+      })
+    );
+
+    expect(parseTraceparent(innerTraceparent)?.traceId).toBe(
+      "4bf92f3577b34da6a3ce929d0e0e4736"
+    );
+  });
+});
+
+describe("withTracing error handling", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should return JSON 500 with trace ids and tracing headers", async () => {
+    const lines = captureLogs(["warn", "error"]);
+    const handler = withTracing(
+      async () => {
+        throw new Error("boom");
+      },
+      {
+        serviceName: "test-service",
+        serviceShort: "test",
+        logger: createLogger({ serviceName: "test-service" }),
+      }
+    );
+
+    const response = await handler(new Request("http://localhost/api/users"));
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body.error).toBe("Internal Server Error");
+    expect(body.traceId).toBe(response.headers.get("X-Trace-ID"));
+    expect(body.requestId).toBe(response.headers.get("X-Request-ID"));
+    expect(response.headers.get("X-Response-Time")).toMatch(/ms$/);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].level).toBe("error");
+    expect(lines[0].traceId).toBe(body.traceId);
+    expect(lines[0].exception).toMatchObject({ message: "boom" });
+    expect(lines[0].extra).toMatchObject({ path: "/api/users", status: 500 });
+  });
+
+  it("should map known errors via onError", async () => {
+    const lines = captureLogs(["warn", "error"]);
+    class NotFoundError extends Error {}
+
+    const handler = withTracing(
+      async () => {
+        throw new NotFoundError("missing");
+      },
+      {
+        serviceName: "test",
+        logger: createLogger({ serviceName: "test" }),
+        onError: (error) =>
+          error instanceof NotFoundError
+            ? { status: 404, body: { error: "Not Found" } }
+            : undefined,
+      }
+    );
+
+    const response = await handler(new Request("http://localhost/api"));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Not Found" });
+    expect(response.headers.get("X-Trace-ID")).toBeTruthy();
+    expect(lines[0].level).toBe("warn");
+  });
+
+  it("should accept Response from onError", async () => {
+    const handler = withTracing(
+      async () => {
+        throw new Error("teapot");
+      },
+      {
+        serviceName: "test",
+        onError: () => new Response("short and stout", { status: 418 }),
+      }
+    );
+
+    const response = await handler(new Request("http://localhost/api"));
+
+    expect(response.status).toBe(418);
+    expect(await response.text()).toBe("short and stout");
+  });
+
+  it("should use custom error body", async () => {
+    const handler = withTracing(
+      async () => {
+        throw "not an error";
+      },
+      {
+        serviceName: "test",
+        errorBody: ({ traceId, status }) => ({ code: "INTERNAL", traceId, status }),
+      }
+    );
+
+    const response = await handler(new Request("http://localhost/api"));
+    const body = await response.json();
+
+    expect(body.code).toBe("INTERNAL");
+    expect(body.status).toBe(500);
+    expect(body.traceId).toBe(response.headers.get("X-Trace-ID"));
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createTrustedSourceMatcher,
+  getRequestSourceAddress,
+  getTraceId,
+  parseTraceContextFromHeaders,
+  sanitizeTraceId,
+  withTracing,
+} from "../src/tracing";
+import { createLogger } from "../src/logging";
+import { captureLogs } from "./helpers";
+
+describe("sanitizeTraceId", () => {
+  it("should accept valid ids", () => {
+    expect(sanitizeTraceId("6789abcd-a1b2c3d4e5f6-chat")).toEqual({
+      traceId: "6789abcd-a1b2c3d4e5f6-chat",
+    });
+    expect(sanitizeTraceId(undefined)).toEqual({});
+  });
+
+  it("should regenerate invalid ids by default", () => {
+    expect(sanitizeTraceId("x".repeat(200))).toEqual({});
+    expect(sanitizeTraceId("abc\ninjected")).toEqual({});
+    expect(sanitizeTraceId("abc def")).toEqual({});
+  });
+
+  it("should truncate when configured", () => {
+    expect(
+      sanitizeTraceId("abc\r\ndef" + "x".repeat(10), {
+        onInvalid: "truncate",
+        maxLength: 8,
+      })
+    ).toEqual({ traceId: "abcdefxx" });
+    expect(sanitizeTraceId("\n\n", { onInvalid: "truncate" })).toEqual({});
+  });
+
+  it("should preserve the original without control characters", () => {
+    expect(sanitizeTraceId("bad id\u0007", { onInvalid: "preserve" })).toEqual({
+      upstreamTraceId: "bad id",
+    });
+  });
+
+  it("should enforce Optima format when strict", () => {
+    expect(sanitizeTraceId("upstream-trace", { strictFormat: true })).toEqual({});
+    expect(
+      sanitizeTraceId("6789abcd-a1b2c3d4e5f6-chat", { strictFormat: true })
+    ).toEqual({ traceId: "6789abcd-a1b2c3d4e5f6-chat" });
+  });
+});
+
+describe("parseTraceContextFromHeaders validation", () => {
+  it("should drop invalid trace ids with their parent span", () => {
+    const context = parseTraceContextFromHeaders(
+      new Headers({ "X-Trace-ID": "a".repeat(500), "X-Parent-Span-ID": "span-1" })
+    );
+
+    expect(context.traceId).toBeUndefined();
+    expect(context.parentSpanId).toBeUndefined();
+  });
+
+  it("should drop invalid parent span ids", () => {
+    const context = parseTraceContextFromHeaders(
+      new Headers({ "X-Trace-ID": "trace-1", "X-Parent-Span-ID": "span 1" })
+    );
+
+    expect(context.traceId).toBe("trace-1");
+    expect(context.parentSpanId).toBeUndefined();
+  });
+
+  it("should drop oversized tracestate", () => {
+    const context = parseTraceContextFromHeaders(
+      new Headers({
+        traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+        tracestate: `vendor=${"x".repeat(600)}`,
+      })
+    );
+
+    expect(context.traceId).toBeDefined();
+    expect(context.traceState).toBeUndefined();
+  });
+
+  it("should keep raw values when validation is disabled", () => {
+    const context = parseTraceContextFromHeaders(
+      new Headers({ "X-Trace-ID": "raw value" }),
+      { validation: false }
+    );
+
+    expect(context.traceId).toBe("raw value");
+  });
+});
+
+describe("createTrustedSourceMatcher", () => {
+  const matcher = createTrustedSourceMatcher(["10.0.0.0/8", "127.0.0.1", "::1"]);
+  const request = (remoteAddress?: string, forwardedFor?: string) => ({
+    headers: new Headers(forwardedFor ? { "X-Forwarded-For": forwardedFor } : {}),
+    remoteAddress,
+  });
+
+  it("should match IPs and IPv4 CIDR ranges", () => {
+    expect(matcher(request("10.1.2.3"))).toBe(true);
+    expect(matcher(request("::ffff:10.1.2.3"))).toBe(true);
+    expect(matcher(request("127.0.0.1"))).toBe(true);
+    expect(matcher(request("::1"))).toBe(true);
+    expect(matcher(request("11.0.0.1"))).toBe(false);
+    expect(matcher(request())).toBe(false);
+  });
+
+  it("should ignore X-Forwarded-For unless explicitly trusted", () => {
+    expect(getRequestSourceAddress(request(undefined, "10.0.0.1"))).toBeUndefined();
+    expect(matcher(request(undefined, "10.0.0.1"))).toBe(false);
+    // socket 地址优先于 header
+    expect(matcher(request("203.0.113.9", "10.0.0.1"))).toBe(false);
+  });
+
+  it("should use the last X-Forwarded-For hop behind a trusted proxy", () => {
+    const proxied = createTrustedSourceMatcher(["10.0.0.0/8"], { trustForwardedFor: true });
+
+    expect(
+      getRequestSourceAddress(request(undefined, "10.0.0.1, 203.0.113.9"), {
+        trustForwardedFor: true,
+      })
+    ).toBe("203.0.113.9");
+    expect(proxied(request(undefined, "203.0.113.9, 10.0.0.1"))).toBe(true);
+    expect(proxied(request(undefined, "10.0.0.1, 203.0.113.9"))).toBe(false);
+  });
+});
+
+describe("withTracing upstream trust", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should ignore headers from untrusted sources", async () => {
+    const handler = withTracing(async () => Response.json({ traceId: getTraceId() }), {
+      serviceName: "test",
+      serviceShort: "test",
+      trustUpstreamHeaders: createTrustedSourceMatcher(["10.0.0.0/8"], {
+        trustForwardedFor: true,
+      }),
+    });
+
+    const external = await handler(
+      new Request("http://localhost/api", {
+        headers: { "X-Trace-ID": "spoofed", "X-Forwarded-For": "203.0.113.9" },
+      })
+    );
+    const internal = await handler(
+      new Request("http://localhost/api", {
+        headers: { "X-Trace-ID": "internal-trace", "X-Forwarded-For": "10.0.0.5" },
+      })
+    );
+
+    expect((await external.json()).traceId).toMatch(/-test$/);
+    expect((await internal.json()).traceId).toBe("internal-trace");
+  });
+
+  it("should check the source once per request", async () => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    const trustUpstreamHeaders = vi.fn(() => true);
+    const handler = withTracing(async () => Response.json({ ok: true }), {
+      serviceName: "test",
+      logger: createLogger({ serviceName: "test" }),
+      accessLog: true,
+      trustUpstreamHeaders,
+    });
+
+    await handler(new Request("http://localhost/api", { headers: { "X-Trace-ID": "upstream" } }));
+
+    expect(trustUpstreamHeaders).toHaveBeenCalledTimes(1);
+  });
+
+  it("should log preserved upstream trace ids", async () => {
+    const lines = captureLogs(["info"]);
+
+    const handler = withTracing(
+      async () => {
+        createLogger({ serviceName: "test" }).info("handled");
+        return Response.json({ ok: true });
+      },
+      {
+        serviceName: "test",
+        serviceShort: "test",
+        traceHeaderValidation: { onInvalid: "preserve" },
+      }
+    );
+
+    const response = await handler(
+      new Request("http://localhost/api", { headers: { "X-Trace-ID": "not valid!" } })
+    );
+
+    expect(response.headers.get("X-Trace-ID")).toMatch(/-test$/);
+    expect(lines[0].traceId).toBe(response.headers.get("X-Trace-ID"));
+    expect(lines[0].upstreamTraceId).toBe("not valid!");
+  });
+});
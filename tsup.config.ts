@@ -7,6 +7,10 @@ export default defineConfig({
     "logging/index": "src/logging/index.ts",
     "tracing/index": "src/tracing/index.ts",
     "http/index": "src/http/index.ts",
+    "exporter/index": "src/exporter/index.ts",
+    "adapters/index": "src/adapters/index.ts",
+    "edge/index": "src/edge/index.ts",
+    "testing/index": "src/testing/index.ts",
   },
   format: ["esm", "cjs"],
   dts: true,